@@ -1,16 +1,27 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation, Location } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { PipelineProvider } from './contexts/PipelineContext';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Layout } from './components/Layout';
 import { Login } from './pages/Login';
+import { AcceptInvite } from './pages/AcceptInvite';
+import { ForgotPassword } from './pages/ForgotPassword';
+import { ResetPassword } from './pages/ResetPassword';
+import { MfaSetup } from './pages/MfaSetup';
 import { Dashboard } from './pages/Dashboard';
 import { Inquiries } from './pages/Inquiries';
 import { Employees } from './pages/Employees';
 import { CoLeaders } from './pages/CoLeaders';
 import { Analytics } from './pages/Analytics';
+import { Duplicates } from './pages/Duplicates';
+import { Settings } from './pages/Settings';
+import { Agenda } from './pages/Agenda';
+import { Calendar } from './pages/Calendar';
+import { Profile } from './pages/Profile';
 
 function AppRoutes() {
-  const { user, loading } = useAuth();
+  const { user, profile, loading, aal, mfaEnrolled } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -24,8 +35,18 @@ function AppRoutes() {
     <Routes>
       <Route
         path="/login"
-        element={user ? <Navigate to="/dashboard" replace /> : <Login />}
+        element={
+          user && profile && !(mfaEnrolled && aal !== 'aal2') ? (
+            <Navigate to={(location.state as { from?: Location } | null)?.from ?? '/dashboard'} replace />
+          ) : (
+            <Login />
+          )
+        }
       />
+      <Route path="/accept-invite" element={<AcceptInvite />} />
+      <Route path="/forgot-password" element={user ? <Navigate to="/profile" replace /> : <ForgotPassword />} />
+      <Route path="/reset-password" element={<ResetPassword />} />
+      <Route path="/mfa-setup" element={user ? <MfaSetup /> : <Navigate to="/login" replace />} />
       <Route
         path="/dashboard"
         element={
@@ -46,10 +67,40 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/agenda"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <Agenda />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/calendar"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <Calendar />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/profile"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <Profile />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/employees"
         element={
-          <ProtectedRoute allowedRoles={['admin']}>
+          <ProtectedRoute allowedRoles={['admin']} requireAal2>
             <Layout>
               <Employees />
             </Layout>
@@ -59,13 +110,23 @@ function AppRoutes() {
       <Route
         path="/co-leaders"
         element={
-          <ProtectedRoute allowedRoles={['admin']}>
+          <ProtectedRoute allowedRoles={['admin']} requireAal2>
             <Layout>
               <CoLeaders />
             </Layout>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/duplicates"
+        element={
+          <ProtectedRoute allowedRoles={['admin']} requireAal2>
+            <Layout>
+              <Duplicates />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/analytics"
         element={
@@ -76,6 +137,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/settings"
+        element={
+          <ProtectedRoute allowedRoles={['admin']} requireAal2>
+            <Layout>
+              <Settings />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
     </Routes>
@@ -86,7 +157,9 @@ function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <AppRoutes />
+        <PipelineProvider>
+          <AppRoutes />
+        </PipelineProvider>
       </AuthProvider>
     </BrowserRouter>
   );
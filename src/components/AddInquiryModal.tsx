@@ -1,8 +1,10 @@
-import { useState, FormEvent } from 'react';
+import { useEffect, useState, FormEvent } from 'react';
 import { motion } from 'framer-motion';
-import { X, Plus } from 'lucide-react';
+import { X, Plus, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { findPossibleDuplicates } from '../lib/inquiries';
+import { StatusBadge } from './StatusBadge';
 
 interface AddInquiryModalProps {
   onClose: () => void;
@@ -19,6 +21,24 @@ export function AddInquiryModal({ onClose, onSuccess }: AddInquiryModalProps) {
     course_interested: '',
     more_input: '',
   });
+  const [duplicates, setDuplicates] = useState<Awaited<ReturnType<typeof findPossibleDuplicates>>>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const matches = await findPossibleDuplicates(formData.contact_number, formData.email);
+        if (!cancelled) setDuplicates(matches);
+      } catch (error) {
+        console.error('Error checking for duplicates:', error);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [formData.contact_number, formData.email]);
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
@@ -30,7 +50,6 @@ export function AddInquiryModal({ onClose, onSuccess }: AddInquiryModalProps) {
         email: formData.email || null,
         more_input: formData.more_input || null,
         created_by: profile?.id,
-        status: 'pending',
       });
 
       if (error) throw error;
@@ -103,6 +122,27 @@ export function AddInquiryModal({ onClose, onSuccess }: AddInquiryModalProps) {
             />
           </div>
 
+          {duplicates.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm font-medium">
+                  This student may already exist. Matching inquiries:
+                </span>
+              </div>
+              <ul className="text-sm space-y-1 pl-7">
+                {duplicates.map((duplicate) => (
+                  <li key={duplicate.id}>
+                    <span className="font-semibold">{duplicate.student_name}</span> · {duplicate.contact_number}
+                    {duplicate.email && ` · ${duplicate.email}`}
+                    {duplicate.assigned_user && ` · assigned to ${duplicate.assigned_user.full_name}`}{' '}
+                    <StatusBadge status={duplicate.status} className="ml-1" />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Course Interested *
@@ -1,8 +1,7 @@
 import { useState, FormEvent } from 'react';
 import { motion } from 'framer-motion';
-import { X, UserPlus } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
+import { X, Send } from 'lucide-react';
+import { inviteUser, userAdminErrorMessage } from '../lib/userAdmin';
 
 interface AddUserModalProps {
   role: 'admin' | 'co_leader' | 'employee';
@@ -11,48 +10,24 @@ interface AddUserModalProps {
 }
 
 export function AddUserModal({ role, onClose, onSuccess }: AddUserModalProps) {
-  const { profile } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     full_name: '',
   });
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     setLoading(true);
+    setError('');
 
     try {
-      const { data: authData, error: authError } = await supabase.auth.signUp({
-        email: formData.email,
-        password: formData.password,
-        options: {
-          data: {
-            full_name: formData.full_name,
-          },
-        },
-      });
-
-      if (authError) throw authError;
-
-      if (authData.user) {
-        const { error: profileError } = await supabase.from('profiles').insert({
-          id: authData.user.id,
-          email: formData.email,
-          full_name: formData.full_name,
-          role: role,
-          created_by: profile?.id,
-          is_active: true,
-        });
-
-        if (profileError) throw profileError;
-      }
-
+      await inviteUser({ ...formData, role });
       onSuccess();
-    } catch (error: any) {
-      console.error('Error creating user:', error);
-      alert(error.message || 'Failed to create user. Please try again.');
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      setError(userAdminErrorMessage(error, 'Failed to send the invite. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -69,7 +44,7 @@ export function AddUserModal({ role, onClose, onSuccess }: AddUserModalProps) {
         className="bg-white rounded-2xl shadow-2xl max-w-md w-full"
       >
         <div className="border-b border-gray-200 px-6 py-4 flex justify-between items-center">
-          <h2 className="text-2xl font-heading font-bold text-gray-900">Add New {roleTitle}</h2>
+          <h2 className="text-2xl font-heading font-bold text-gray-900">Invite New {roleTitle}</h2>
           <button
             onClick={onClose}
             className="p-2 hover:bg-gray-100 rounded-lg transition"
@@ -79,6 +54,10 @@ export function AddUserModal({ role, onClose, onSuccess }: AddUserModalProps) {
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Full Name *
@@ -107,21 +86,10 @@ export function AddUserModal({ role, onClose, onSuccess }: AddUserModalProps) {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Password *
-            </label>
-            <input
-              type="password"
-              required
-              value={formData.password}
-              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
-              placeholder="Create a password"
-              minLength={6}
-            />
-            <p className="text-xs text-gray-500 mt-1">Minimum 6 characters</p>
-          </div>
+          <p className="text-sm text-gray-600">
+            We'll email them a link to set their own password. The link expires after 24 hours; you can
+            resend it from this page.
+          </p>
 
           <div className="flex gap-4 pt-4">
             <button
@@ -136,8 +104,8 @@ export function AddUserModal({ role, onClose, onSuccess }: AddUserModalProps) {
               disabled={loading}
               className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
-              <UserPlus className="w-5 h-5" />
-              {loading ? 'Creating...' : `Add ${roleTitle}`}
+              <Send className="w-5 h-5" />
+              {loading ? 'Sending...' : 'Send Invite'}
             </button>
           </div>
         </form>
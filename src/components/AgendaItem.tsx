@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { CheckCircle, CalendarClock, Phone, BookOpen } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { format, isToday } from 'date-fns';
+import { AgendaFollowUp, toDateTimeLocal } from '../lib/followUps';
+import { StatusBadge } from './StatusBadge';
+
+interface AgendaItemProps {
+  followUp: AgendaFollowUp;
+  overdue?: boolean;
+  canManage: boolean;
+  onOpenInquiry: (followUp: AgendaFollowUp) => void;
+  onChange: () => void;
+}
+
+export function AgendaItem({ followUp, overdue, canManage, onOpenInquiry, onChange }: AgendaItemProps) {
+  const [rescheduling, setRescheduling] = useState(false);
+  const [newDate, setNewDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  async function updateFollowUp(changes: { state?: 'completed'; follow_up_date?: string }) {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('follow_ups')
+        .update(changes)
+        .eq('id', followUp.id);
+
+      if (error) throw error;
+      setRescheduling(false);
+      onChange();
+    } catch (error) {
+      console.error('Error updating follow-up:', error);
+      alert('Failed to update follow-up. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function startRescheduling() {
+    setNewDate(toDateTimeLocal(followUp.follow_up_date));
+    setRescheduling(true);
+  }
+
+  const dueAt = new Date(followUp.follow_up_date);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 hover:shadow-md transition">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-start gap-4 min-w-0">
+          <div className={`text-center w-20 shrink-0 ${overdue ? 'text-red-600' : 'text-primary-700'}`}>
+            <p className="text-lg font-bold">{format(dueAt, 'p')}</p>
+            {!isToday(dueAt) && <p className="text-xs">{format(dueAt, 'EEE, MMM d')}</p>}
+          </div>
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => onOpenInquiry(followUp)}
+                className="font-heading font-bold text-gray-900 hover:text-primary-700 transition text-left"
+              >
+                {followUp.inquiry.student_name}
+              </button>
+              <StatusBadge status={followUp.inquiry.status} />
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-gray-600">
+              <span className="flex items-center gap-1">
+                <Phone className="w-4 h-4" />
+                {followUp.inquiry.contact_number}
+              </span>
+              <span className="flex items-center gap-1">
+                <BookOpen className="w-4 h-4" />
+                {followUp.inquiry.course_interested}
+              </span>
+            </div>
+            <p className="text-gray-700 mt-2 line-clamp-2">{followUp.notes}</p>
+          </div>
+        </div>
+
+        {canManage && (rescheduling ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="datetime-local"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            />
+            <button
+              onClick={() => updateFollowUp({ follow_up_date: new Date(newDate).toISOString() })}
+              disabled={saving || !newDate}
+              className="px-3 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setRescheduling(false)}
+              className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => updateFollowUp({ state: 'completed' })}
+              disabled={saving}
+              className="flex items-center gap-2 px-3 py-2 bg-green-50 text-green-700 rounded-lg font-medium hover:bg-green-100 transition disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4" />
+              Complete
+            </button>
+            <button
+              onClick={startRescheduling}
+              disabled={saving}
+              className="flex items-center gap-2 px-3 py-2 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Reschedule
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,43 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, UserCheck } from 'lucide-react';
-import { supabase, Database } from '../lib/supabase';
-
-type Inquiry = Database['public']['Tables']['inquiries']['Row'];
-type Profile = Database['public']['Tables']['profiles']['Row'];
+import { X, UserCheck, Inbox, AlarmClock, TrendingUp, Clock, Sparkles } from 'lucide-react';
+import { fetchAssignmentCandidates, rankAssignmentCandidates, RankedCandidate } from '../lib/assignment';
+import { BulkActionResult, BulkTarget, bulkAssignInquiries } from '../lib/bulkActions';
+import { BulkActionResults } from './BulkActionResults';
+import { formatDistanceToNow } from 'date-fns';
 
 interface AssignInquiryModalProps {
-  inquiry: Inquiry;
+  inquiries: BulkTarget[];
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export function AssignInquiryModal({ inquiry, onClose, onSuccess }: AssignInquiryModalProps) {
-  const [employees, setEmployees] = useState<Profile[]>([]);
-  const [selectedEmployee, setSelectedEmployee] = useState<string>(inquiry.assigned_to || '');
+export function AssignInquiryModal({ inquiries, onClose, onSuccess }: AssignInquiryModalProps) {
+  const [candidates, setCandidates] = useState<RankedCandidate[]>([]);
+  const [selectedEmployee, setSelectedEmployee] = useState<string>(
+    inquiries.length === 1 ? inquiries[0].assigned_to || '' : ''
+  );
+  const [loadingCandidates, setLoadingCandidates] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<BulkActionResult | null>(null);
+
+  const courses = [...new Set(inquiries.map((inquiry) => inquiry.course_interested))];
+  const selectedCandidate = candidates.find((candidate) => candidate.id === selectedEmployee);
+  const reassignedCount = inquiries.filter(
+    (inquiry) => inquiry.assigned_to && inquiry.assigned_to !== selectedEmployee
+  ).length;
 
   useEffect(() => {
-    loadEmployees();
+    loadCandidates();
   }, []);
 
-  async function loadEmployees() {
+  async function loadCandidates() {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('is_active', true)
-        .order('full_name');
-
-      if (error) throw error;
-      setEmployees(data || []);
+      setCandidates(rankAssignmentCandidates(await fetchAssignmentCandidates(courses)));
     } catch (error) {
       console.error('Error loading employees:', error);
+    } finally {
+      setLoadingCandidates(false);
     }
   }
 
@@ -41,16 +46,16 @@ export function AssignInquiryModal({ inquiry, onClose, onSuccess }: AssignInquir
     setLoading(true);
 
     try {
-      const { error } = await supabase
-        .from('inquiries')
-        .update({ assigned_to: selectedEmployee })
-        .eq('id', inquiry.id);
+      const outcome = await bulkAssignInquiries(inquiries, selectedEmployee);
 
-      if (error) throw error;
-      onSuccess();
+      if (outcome.failures.length === 0) {
+        onSuccess();
+      } else {
+        setResult(outcome);
+      }
     } catch (error) {
       console.error('Error assigning inquiry:', error);
-      alert('Failed to assign inquiry. Please try again.');
+      alert(`Failed to assign ${inquiries.length === 1 ? 'inquiry' : 'inquiries'}. Please try again.`);
     } finally {
       setLoading(false);
     }
@@ -62,59 +67,138 @@ export function AssignInquiryModal({ inquiry, onClose, onSuccess }: AssignInquir
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.9 }}
-        className="bg-white rounded-2xl shadow-2xl max-w-lg w-full"
+        className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
       >
         <div className="border-b border-gray-200 px-6 py-4 flex justify-between items-center">
-          <h2 className="text-2xl font-heading font-bold text-gray-900">Assign Inquiry</h2>
+          <h2 className="text-2xl font-heading font-bold text-gray-900">
+            {inquiries.length === 1 ? 'Assign Inquiry' : `Assign ${inquiries.length} Inquiries`}
+          </h2>
           <button
-            onClick={onClose}
+            onClick={result ? onSuccess : onClose}
             className="p-2 hover:bg-gray-100 rounded-lg transition"
           >
             <X className="w-6 h-6 text-gray-500" />
           </button>
         </div>
 
-        <div className="p-6 space-y-4">
-          <div>
-            <p className="text-sm text-gray-600 mb-4">
-              Assign inquiry for <span className="font-semibold">{inquiry.student_name}</span> to a
-              counselor
-            </p>
-
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Select Counselor *
-            </label>
-            <select
-              value={selectedEmployee}
-              onChange={(e) => setSelectedEmployee(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
-            >
-              <option value="">-- Select a counselor --</option>
-              {employees.map((employee) => (
-                <option key={employee.id} value={employee.id}>
-                  {employee.full_name} ({employee.role.replace('_', ' ')})
-                </option>
-              ))}
-            </select>
+        {result ? (
+          <div className="p-6">
+            <BulkActionResults result={result} onDone={onSuccess} />
           </div>
+        ) : (
+          <>
+            <div className="p-6 space-y-4 overflow-y-auto">
+              <p className="text-sm text-gray-600">
+                {inquiries.length === 1 ? (
+                  <>
+                    Assign inquiry for <span className="font-semibold">{inquiries[0].student_name}</span> to a
+                    counselor
+                  </>
+                ) : (
+                  <>
+                    Assign <span className="font-semibold">{inquiries.length} selected inquiries</span> to a counselor
+                  </>
+                )}
+                . Counselors are sorted by suggested fit; conversion rates are for{' '}
+                <span className="font-semibold">{courses.join(', ')}</span>.
+              </p>
 
-          <div className="flex gap-4 pt-4">
-            <button
-              onClick={onClose}
-              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
-            >
-              Cancel
-            </button>
-            <button
-              onClick={handleAssign}
-              disabled={loading || !selectedEmployee}
-              className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-            >
-              <UserCheck className="w-5 h-5" />
-              {loading ? 'Assigning...' : 'Assign Inquiry'}
-            </button>
-          </div>
-        </div>
+              {loadingCandidates ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {candidates.map((candidate) => (
+                    <label
+                      key={candidate.id}
+                      className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition ${
+                        selectedEmployee === candidate.id
+                          ? 'border-primary-500 bg-primary-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="assignee"
+                        checked={selectedEmployee === candidate.id}
+                        onChange={() => setSelectedEmployee(candidate.id)}
+                        className="mt-1 text-primary-600 focus:ring-primary-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium text-gray-900">{candidate.full_name}</span>
+                          <span className="text-xs text-gray-500 capitalize">{candidate.role.replace('_', ' ')}</span>
+                          {candidate.suggested && (
+                            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                              <Sparkles className="w-3 h-3" />
+                              Suggested
+                            </span>
+                          )}
+                          {candidate.on_leave && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                              On leave
+                            </span>
+                          )}
+                        </div>
+                        <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs text-gray-600">
+                          <span className="flex items-center gap-1" title="Inquiries in an open stage">
+                            <Inbox className="w-3.5 h-3.5" />
+                            {candidate.open_count} open
+                          </span>
+                          <span
+                            className={`flex items-center gap-1 ${candidate.overdue_count > 0 ? 'text-red-600 font-medium' : ''}`}
+                            title="Scheduled follow-ups past their date"
+                          >
+                            <AlarmClock className="w-3.5 h-3.5" />
+                            {candidate.overdue_count} overdue
+                          </span>
+                          <span className="flex items-center gap-1" title="Won share of closed inquiries for these courses">
+                            <TrendingUp className="w-3.5 h-3.5" />
+                            {candidate.conversion_rate === null
+                              ? 'No closed inquiries'
+                              : `${Math.round(candidate.conversion_rate * 100)}% of ${candidate.course_closed} converted`}
+                          </span>
+                          <span className="flex items-center gap-1" title="Last sign-in, inquiry change or follow-up">
+                            <Clock className="w-3.5 h-3.5" />
+                            {candidate.last_active_at
+                              ? `Active ${formatDistanceToNow(new Date(candidate.last_active_at), { addSuffix: true })}`
+                              : 'Never active'}
+                          </span>
+                        </div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {inquiries.length > 1 && selectedCandidate && (
+              <p className="mx-6 mb-4 p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+                {inquiries.length} inquiries will be assigned to {selectedCandidate.full_name}.
+                {reassignedCount > 0 &&
+                  ` ${reassignedCount} ${reassignedCount === 1 ? 'is' : 'are'} currently assigned to someone else.`}
+              </p>
+            )}
+
+            <div className="flex gap-4 px-6 py-4 border-t border-gray-200">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAssign}
+                disabled={loading || !selectedEmployee}
+                className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <UserCheck className="w-5 h-5" />
+                {loading ? 'Assigning...' : inquiries.length === 1 ? 'Assign Inquiry' : `Assign ${inquiries.length} Inquiries`}
+              </button>
+            </div>
+          </>
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,90 @@
+import { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertCircle, LucideIcon } from 'lucide-react';
+
+interface AuthLayoutProps {
+  icon: LucideIcon;
+  title: string;
+  subtitle: string;
+  children: ReactNode;
+}
+
+export function AuthLayout({ icon: Icon, title, subtitle, children }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center relative overflow-hidden">
+      <div className="absolute inset-0 gradient-primary opacity-90"></div>
+
+      <div className="absolute inset-0 overflow-hidden">
+        {[...Array(20)].map((_, i) => (
+          <motion.div
+            key={i}
+            className="absolute bg-white rounded-full opacity-10"
+            style={{
+              width: Math.random() * 300 + 50,
+              height: Math.random() * 300 + 50,
+              left: `${Math.random() * 100}%`,
+              top: `${Math.random() * 100}%`,
+            }}
+            animate={{
+              x: [0, Math.random() * 100 - 50],
+              y: [0, Math.random() * 100 - 50],
+              scale: [1, 1.1, 1],
+            }}
+            transition={{
+              duration: Math.random() * 10 + 10,
+              repeat: Infinity,
+              repeatType: "reverse",
+            }}
+          />
+        ))}
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="relative z-10 w-full max-w-md mx-4"
+      >
+        <div className="bg-white rounded-2xl shadow-2xl p-8">
+          <div className="text-center mb-8">
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
+              className="inline-block p-3 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl mb-4"
+            >
+              <Icon className="w-8 h-8 text-white" />
+            </motion.div>
+            <h1 className="text-3xl font-heading font-bold text-gray-900">{title}</h1>
+            <p className="text-gray-600 mt-2">{subtitle}</p>
+          </div>
+
+          {children}
+        </div>
+
+        <p className="text-center mt-6 text-white text-sm">
+          Secure access for admins, co-leaders, and employees
+        </p>
+      </motion.div>
+    </div>
+  );
+}
+
+/** Explains why an emailed link cannot be used, with a way back to sign in. */
+export function AuthLinkProblem({ message }: { message: string }) {
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+        <span className="text-sm">{message}</span>
+      </div>
+      <Link
+        to="/login"
+        className="block text-center text-sm font-medium text-primary-600 hover:text-primary-700 transition"
+      >
+        Back to sign in
+      </Link>
+    </div>
+  );
+}
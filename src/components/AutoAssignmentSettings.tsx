@@ -0,0 +1,294 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ASSIGNMENT_STRATEGIES,
+  AssignmentStrategy,
+  AutoAssignmentSettings as AutoAssignmentConfig,
+  DEFAULT_AUTO_ASSIGNMENT,
+  fetchAppSetting,
+  saveAppSetting,
+} from '../lib/appSettings';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type CourseAssignment = Database['public']['Tables']['course_assignments']['Row'];
+
+export function AutoAssignmentSettings() {
+  const { profile } = useAuth();
+  const [config, setConfig] = useState<AutoAssignmentConfig>(DEFAULT_AUTO_ASSIGNMENT);
+  const [counselors, setCounselors] = useState<Profile[]>([]);
+  const [courseAssignments, setCourseAssignments] = useState<CourseAssignment[]>([]);
+  const [newMapping, setNewMapping] = useState({ course: '', counselor_id: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  async function loadSettings() {
+    try {
+      const [settings, counselorsResult, assignmentsResult] = await Promise.all([
+        fetchAppSetting('auto_assignment', DEFAULT_AUTO_ASSIGNMENT),
+        supabase.from('profiles').select('*').eq('role', 'employee').order('full_name'),
+        supabase.from('course_assignments').select('*').order('course'),
+      ]);
+
+      if (counselorsResult.error) throw counselorsResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      setConfig(settings);
+      setCounselors(counselorsResult.data || []);
+      setCourseAssignments(assignmentsResult.data || []);
+    } catch (error) {
+      console.error('Error loading auto-assignment settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError('');
+
+    try {
+      await saveAppSetting('auto_assignment', config, profile?.id);
+    } catch (error) {
+      console.error('Error saving auto-assignment settings:', error);
+      setError('Failed to save auto-assignment settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAddMapping(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const { error } = await supabase.from('course_assignments').insert({
+        course: newMapping.course.trim(),
+        counselor_id: newMapping.counselor_id,
+      });
+
+      if (error) {
+        if (error.code === '23505') {
+          setError('That counselor is already mapped to this course.');
+          return;
+        }
+        throw error;
+      }
+
+      setNewMapping({ course: newMapping.course, counselor_id: '' });
+      loadSettings();
+    } catch (error) {
+      console.error('Error adding course mapping:', error);
+      setError('Failed to add course mapping. Please try again.');
+    }
+  }
+
+  async function handleDeleteMapping(mapping: CourseAssignment) {
+    try {
+      const { error } = await supabase
+        .from('course_assignments')
+        .delete()
+        .eq('id', mapping.id);
+
+      if (error) throw error;
+      setCourseAssignments((current) => current.filter((m) => m.id !== mapping.id));
+    } catch (error) {
+      console.error('Error deleting course mapping:', error);
+      setError('Failed to delete course mapping. Please try again.');
+    }
+  }
+
+  async function toggleOnLeave(counselor: Profile) {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ on_leave: !counselor.on_leave })
+        .eq('id', counselor.id);
+
+      if (error) throw error;
+      setCounselors((current) =>
+        current.map((c) => (c.id === counselor.id ? { ...c, on_leave: !counselor.on_leave } : c))
+      );
+    } catch (error) {
+      console.error('Error updating counselor availability:', error);
+      setError('Failed to update counselor availability. Please try again.');
+    }
+  }
+
+  const counselorName = (id: string) => counselors.find((c) => c.id === id)?.full_name ?? 'Unknown counselor';
+  const isAvailable = (counselor: Profile) => counselor.is_active && !counselor.on_leave;
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-6">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Automatic Assignment</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Assign new inquiries to a counselor as soon as they are created, from the Add Inquiry form, an import or
+          anywhere else. Inquiries created with an assignee keep it. Inactive counselors and counselors on leave are
+          skipped.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {(Object.entries(ASSIGNMENT_STRATEGIES) as [AssignmentStrategy, { label: string; description: string }][]).map(
+          ([strategy, { label, description }]) => (
+            <label
+              key={strategy}
+              className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition ${
+                config.strategy === strategy ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="assignment-strategy"
+                checked={config.strategy === strategy}
+                onChange={() => setConfig({ ...config, strategy })}
+                className="mt-1 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                <span className="block font-medium text-gray-900">{label}</span>
+                <span className="block text-sm text-gray-600">{description}</span>
+              </span>
+            </label>
+          )
+        )}
+      </div>
+
+      {config.strategy === 'course' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            When no available counselor is mapped to the course
+          </label>
+          <select
+            value={config.fallback}
+            onChange={(e) => setConfig({ ...config, fallback: e.target.value as AutoAssignmentConfig['fallback'] })}
+            className="w-full md:w-96 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+          >
+            <option value="none">Leave the inquiry unassigned</option>
+            <option value="round_robin">Use round-robin</option>
+            <option value="least_open">Use least open inquiries</option>
+          </select>
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+      >
+        <Save className="w-4 h-4" />
+        {saving ? 'Saving...' : 'Save Assignment Rules'}
+      </button>
+
+      <div className="border-t border-gray-200 pt-6 space-y-3">
+        <h3 className="font-heading font-semibold text-gray-900">Course Mapping</h3>
+        <p className="text-sm text-gray-600">
+          Used by the "By course" strategy. Course names are matched without regard to case or surrounding spaces.
+        </p>
+
+        {courseAssignments.length > 0 && (
+          <div className="space-y-2">
+            {courseAssignments.map((mapping) => (
+              <div key={mapping.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                <span className="text-gray-900">
+                  <span className="font-medium">{mapping.course}</span>
+                  <span className="text-gray-500"> → </span>
+                  {counselorName(mapping.counselor_id)}
+                </span>
+                <button
+                  onClick={() => handleDeleteMapping(mapping)}
+                  className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition"
+                  title="Remove mapping"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAddMapping} className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            required
+            value={newMapping.course}
+            onChange={(e) => setNewMapping({ ...newMapping, course: e.target.value })}
+            placeholder="Course name"
+            className="flex-1 min-w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+          />
+          <select
+            required
+            value={newMapping.counselor_id}
+            onChange={(e) => setNewMapping({ ...newMapping, counselor_id: e.target.value })}
+            className="flex-1 min-w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+          >
+            <option value="">-- Select a counselor --</option>
+            {counselors.map((counselor) => (
+              <option key={counselor.id} value={counselor.id}>
+                {counselor.full_name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition"
+          >
+            <Plus className="w-4 h-4" />
+            Add Mapping
+          </button>
+        </form>
+      </div>
+
+      <div className="border-t border-gray-200 pt-6 space-y-3">
+        <h3 className="font-heading font-semibold text-gray-900">Counselor Availability</h3>
+        {counselors.length === 0 ? (
+          <p className="text-sm text-gray-600">No employees yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {counselors.map((counselor) => (
+              <div key={counselor.id} className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{counselor.full_name}</span>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      isAvailable(counselor) ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {!counselor.is_active ? 'Inactive' : counselor.on_leave ? 'On leave' : 'Receiving inquiries'}
+                  </span>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={counselor.on_leave}
+                    onChange={() => toggleOnLeave(counselor)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  On leave
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, FormEvent } from 'react';
+import { motion } from 'framer-motion';
+import { X, ArrowRightLeft, Tags, Download, Trash2 } from 'lucide-react';
+import { usePipeline } from '../contexts/PipelineContext';
+import { LossReasonFields } from './LossReasonFields';
+import { BulkActionResults } from './BulkActionResults';
+import { downloadInquiries, ExportFormat, fetchInquiriesByIdForExport } from '../lib/export';
+import {
+  BulkAction,
+  BulkActionResult,
+  BulkTarget,
+  bulkChangeInquiryStatus,
+  bulkDeleteInquiries,
+  bulkTagInquiries,
+  parseTags,
+} from '../lib/bulkActions';
+
+type ModalAction = Exclude<BulkAction, 'assign'>;
+
+const ACTION_TITLES: Record<ModalAction, string> = {
+  status: 'Change Stage',
+  tag: 'Tag Inquiries',
+  export: 'Export Inquiries',
+  delete: 'Delete Inquiries',
+};
+
+const ACTION_VERBS: Record<ModalAction, string> = {
+  status: 'Move',
+  tag: 'Tag',
+  export: 'Export',
+  delete: 'Delete',
+};
+
+// How many student names the delete summary lists before "and N more".
+const SUMMARY_NAME_LIMIT = 5;
+
+interface BulkActionModalProps {
+  action: ModalAction;
+  targets: BulkTarget[];
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+export function BulkActionModal({ action, targets, onClose, onComplete }: BulkActionModalProps) {
+  const { stages, getStage } = usePipeline();
+  const [status, setStatus] = useState('');
+  const [reasonId, setReasonId] = useState('');
+  const [note, setNote] = useState('');
+  const [addTags, setAddTags] = useState('');
+  const [removeTags, setRemoveTags] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<BulkActionResult | null>(null);
+
+  const count = targets.length;
+  const noun = count === 1 ? 'inquiry' : 'inquiries';
+  const stage = getStage(status);
+  const tagsToAdd = parseTags(addTags);
+  const tagsToRemove = parseTags(removeTags);
+
+  const canSubmit =
+    action === 'status'
+      ? status !== '' && (stage?.kind !== 'lost' || reasonId !== '')
+      : action === 'tag'
+      ? tagsToAdd.length > 0 || tagsToRemove.length > 0
+      : true;
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setLoading(true);
+
+    try {
+      if (action === 'export') {
+        const rows = await fetchInquiriesByIdForExport(targets.map((target) => target.id));
+        await downloadInquiries(rows, exportFormat, (key) => getStage(key)?.label ?? key);
+        onClose();
+        return;
+      }
+
+      const outcome =
+        action === 'status'
+          ? await bulkChangeInquiryStatus(targets, {
+              status,
+              loss_reason_id: stage?.kind === 'lost' ? reasonId : null,
+              loss_note: stage?.kind === 'lost' ? note.trim() || null : null,
+            })
+          : action === 'tag'
+          ? await bulkTagInquiries(targets, tagsToAdd, tagsToRemove)
+          : await bulkDeleteInquiries(targets);
+
+      if (outcome.failures.length === 0) {
+        onComplete();
+      } else {
+        setResult(outcome);
+      }
+    } catch (error) {
+      console.error(`Error running bulk ${action}:`, error);
+      alert(`Failed to ${action === 'export' ? 'export' : 'update'} ${noun}. Please try again.`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function renderSummary() {
+    if (action === 'status') {
+      if (!stage) return `Choose the stage to move ${count} ${noun} to.`;
+      const unchanged = targets.filter((target) => target.status === stage.key).length;
+      return `${count} ${noun} will move to ${stage.label}.${
+        unchanged > 0 ? ` ${unchanged} ${unchanged === 1 ? 'is' : 'are'} already there.` : ''
+      }`;
+    }
+
+    if (action === 'tag') {
+      const parts = [
+        tagsToAdd.length > 0 && `add ${tagsToAdd.join(', ')}`,
+        tagsToRemove.length > 0 && `remove ${tagsToRemove.join(', ')}`,
+      ].filter(Boolean);
+      return parts.length > 0
+        ? `This will ${parts.join(' and ')} on ${count} ${noun}.`
+        : `Enter tags to add to or remove from ${count} ${noun}.`;
+    }
+
+    if (action === 'export') {
+      return `${count} ${noun} will be downloaded as ${exportFormat === 'csv' ? 'CSV' : 'Excel'}.`;
+    }
+
+    const names = targets.slice(0, SUMMARY_NAME_LIMIT).map((target) => target.student_name).join(', ');
+    const more = count > SUMMARY_NAME_LIMIT ? ` and ${count - SUMMARY_NAME_LIMIT} more` : '';
+    return `${count} ${noun} (${names}${more}) will be permanently deleted along with their follow-ups. This cannot be undone.`;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-heading font-bold text-gray-900">{ACTION_TITLES[action]}</h2>
+          <button
+            onClick={result ? onComplete : onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="p-6">
+            <BulkActionResults result={result} onDone={onComplete} />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {action === 'status' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    New Stage *
+                  </label>
+                  <select
+                    required
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                  >
+                    <option value="">-- Select a stage --</option>
+                    {stages.map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {stage?.kind === 'lost' && (
+                  <LossReasonFields
+                    reasonId={reasonId}
+                    note={note}
+                    onChange={(changes) => {
+                      if (changes.reasonId !== undefined) setReasonId(changes.reasonId);
+                      if (changes.note !== undefined) setNote(changes.note);
+                    }}
+                  />
+                )}
+              </>
+            )}
+
+            {action === 'tag' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Add Tags
+                  </label>
+                  <input
+                    type="text"
+                    value={addTags}
+                    onChange={(e) => setAddTags(e.target.value)}
+                    placeholder="e.g. open-day, scholarship"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Remove Tags
+                  </label>
+                  <input
+                    type="text"
+                    value={removeTags}
+                    onChange={(e) => setRemoveTags(e.target.value)}
+                    placeholder="Comma-separated"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                  />
+                </div>
+              </>
+            )}
+
+            {action === 'export' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Format
+                </label>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                >
+                  <option value="csv">CSV (.csv)</option>
+                  <option value="xlsx">Excel (.xlsx)</option>
+                </select>
+              </div>
+            )}
+
+            <p
+              className={`p-4 rounded-lg text-sm ${
+                action === 'delete' ? 'bg-red-50 border border-red-200 text-red-700' : 'bg-gray-50 text-gray-700'
+              }`}
+            >
+              {renderSummary()}
+            </p>
+
+            <div className="flex gap-4 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !canSubmit}
+                className={`flex-1 py-3 px-4 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                  action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-gradient-to-r from-primary-600 to-primary-700'
+                }`}
+              >
+                {action === 'status' && <ArrowRightLeft className="w-5 h-5" />}
+                {action === 'tag' && <Tags className="w-5 h-5" />}
+                {action === 'export' && <Download className="w-5 h-5" />}
+                {action === 'delete' && <Trash2 className="w-5 h-5" />}
+                {loading ? 'Working...' : `${ACTION_VERBS[action]} ${count} ${noun}`}
+              </button>
+            </div>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
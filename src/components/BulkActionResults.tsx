@@ -0,0 +1,48 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+import { BulkActionResult } from '../lib/bulkActions';
+
+interface BulkActionResultsProps {
+  result: BulkActionResult;
+  onDone: () => void;
+}
+
+export function BulkActionResults({ result, onDone }: BulkActionResultsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="flex items-center gap-3 p-4 bg-green-50 rounded-lg">
+          <CheckCircle className="w-6 h-6 text-green-600" />
+          <div>
+            <p className="text-2xl font-bold text-green-700">{result.succeeded}</p>
+            <p className="text-sm text-green-700">Succeeded</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 p-4 bg-red-50 rounded-lg">
+          <XCircle className="w-6 h-6 text-red-600" />
+          <div>
+            <p className="text-2xl font-bold text-red-700">{result.failures.length}</p>
+            <p className="text-sm text-red-700">Failed</p>
+          </div>
+        </div>
+      </div>
+
+      {result.failures.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {result.failures.map(({ target, message }) => (
+            <div key={target.id} className="px-4 py-3 text-sm">
+              <p className="font-medium text-gray-900">{target.student_name}</p>
+              <p className="text-red-700">{message}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onDone}
+        className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
+      >
+        Done
+      </button>
+    </div>
+  );
+}
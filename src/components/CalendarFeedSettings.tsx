@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { CalendarPlus, Copy, Check, Download, RefreshCw, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { format } from 'date-fns';
+import {
+  CalendarFeedToken,
+  createCalendarFeedToken,
+  fetchCalendarFeedToken,
+  getCalendarFeedUrl,
+  getCalendarSubscribeUrl,
+  revokeCalendarFeedToken,
+} from '../lib/calendarFeed';
+
+export function CalendarFeedSettings() {
+  const { profile } = useAuth();
+  const [feedToken, setFeedToken] = useState<CalendarFeedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    loadFeedToken();
+  }, []);
+
+  async function loadFeedToken() {
+    try {
+      setFeedToken(await fetchCalendarFeedToken());
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCreate() {
+    if (!profile) return;
+
+    if (feedToken && !window.confirm('Reset the feed link? Calendars subscribed to the current link will stop updating.')) {
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      setFeedToken(await createCalendarFeedToken(profile.id));
+      setCopied(false);
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      alert('Failed to create calendar feed link. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRevoke() {
+    if (!profile) return;
+    if (!window.confirm('Revoke the feed link? Calendars subscribed to it will stop updating.')) return;
+
+    setSaving(true);
+
+    try {
+      await revokeCalendarFeedToken(profile.id);
+      setFeedToken(null);
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      alert('Failed to revoke calendar feed link. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!feedToken) return;
+
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(feedToken.token));
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying calendar feed link:', error);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Calendar Feed</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Subscribe from your phone or desktop calendar to see follow-ups on the inquiries assigned to you.
+          Reschedules and completed follow-ups show up the next time your calendar refreshes. Anyone with the
+          link can read the feed, so keep it private and revoke it if it leaks.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : feedToken ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={getCalendarFeedUrl(feedToken.token)}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-4 py-2 border border-gray-300 rounded-lg bg-gray-50 text-sm text-gray-700 focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            />
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Created {format(new Date(feedToken.created_at), 'PPp')}
+            {feedToken.last_used_at
+              ? ` · last fetched ${format(new Date(feedToken.last_used_at), 'PPp')}`
+              : ' · not fetched yet'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <a
+              href={getCalendarSubscribeUrl(feedToken.token)}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Subscribe
+            </a>
+            <a
+              href={getCalendarFeedUrl(feedToken.token, { download: true })}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+            >
+              <Download className="w-4 h-4" />
+              Download .ics
+            </a>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Reset link
+            </button>
+            <button
+              onClick={handleRevoke}
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 text-red-600 rounded-lg font-medium hover:bg-red-50 transition disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Revoke
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleCreate}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          {saving ? 'Creating...' : 'Create feed link'}
+        </button>
+      )}
+    </div>
+  );
+}
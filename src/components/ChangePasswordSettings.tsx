@@ -0,0 +1,97 @@
+import { useState, FormEvent } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { NewPasswordFields } from './NewPasswordFields';
+import { changePassword, passwordErrorMessage, passwordProblem } from '../lib/password';
+
+export function ChangePasswordSettings() {
+  const { user } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!user?.email) return;
+
+    setError('');
+    setSaved(false);
+
+    const problem = passwordProblem(password, confirmPassword);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await changePassword(user.email, currentPassword, password);
+      setCurrentPassword('');
+      setPassword('');
+      setConfirmPassword('');
+      setSaved(true);
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setError(passwordErrorMessage(error, 'Failed to change your password. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Password</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Change the password you use to sign in. You'll need your current password.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+        {saved && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+            Your password has been changed.
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="current-password" className="block text-sm font-medium text-gray-700 mb-2">
+            Current Password
+          </label>
+          <input
+            id="current-password"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+            autoComplete="current-password"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            placeholder="Enter your current password"
+          />
+        </div>
+
+        <NewPasswordFields
+          password={password}
+          confirmPassword={confirmPassword}
+          onPasswordChange={setPassword}
+          onConfirmPasswordChange={setConfirmPassword}
+          label="New Password"
+        />
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-3 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Change Password'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useRef, useState, DragEvent } from 'react';
+import { MapPin } from 'lucide-react';
+import {
+  addHours,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { usePipeline } from '../contexts/PipelineContext';
+import { AgendaFollowUp } from '../lib/followUps';
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+const MAX_EVENTS_PER_DAY = 3;
+const FIRST_VISIBLE_HOUR = 8;
+
+interface FollowUpCalendarProps {
+  view: CalendarView;
+  cursor: Date;
+  followUps: AgendaFollowUp[];
+  counselorColor: (counselorId: string | null) => string;
+  canReschedule: (followUp: AgendaFollowUp) => boolean;
+  onEventClick: (followUp: AgendaFollowUp) => void;
+  onReschedule: (followUp: AgendaFollowUp, date: Date) => void;
+  onDayClick: (day: Date) => void;
+}
+
+/**
+ * Returns the first and last instant shown by a calendar view, so the page can
+ * load exactly the follow-ups that will be drawn.
+ */
+export function getCalendarRange(view: CalendarView, cursor: Date) {
+  if (view === 'month') {
+    return { from: startOfWeek(startOfMonth(cursor)), to: endOfWeek(endOfMonth(cursor)) };
+  }
+  if (view === 'week') {
+    return { from: startOfWeek(cursor), to: endOfWeek(cursor) };
+  }
+  return { from: startOfDay(cursor), to: endOfDay(cursor) };
+}
+
+export function FollowUpCalendar({
+  view,
+  cursor,
+  followUps,
+  counselorColor,
+  canReschedule,
+  onEventClick,
+  onReschedule,
+  onDayClick,
+}: FollowUpCalendarProps) {
+  const { getStage } = usePipeline();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    // Open the hourly views at the start of the working day rather than midnight.
+    const firstHour = scrollRef.current?.querySelector<HTMLElement>(`[data-hour="${FIRST_VISIBLE_HOUR}"]`);
+    if (scrollRef.current && firstHour) {
+      scrollRef.current.scrollTop = firstHour.offsetTop;
+    }
+  }, [view]);
+
+  function handleDragStart(e: DragEvent<HTMLButtonElement>, followUp: AgendaFollowUp) {
+    e.dataTransfer.setData('text/plain', followUp.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedId(followUp.id);
+  }
+
+  function handleDragEnd() {
+    setDraggedId(null);
+    setDropTarget(null);
+  }
+
+  // Month cells keep the event's time of day; hour slots keep its minutes.
+  function dropHandlers(slotStart: Date, granularity: 'day' | 'hour') {
+    const key = slotStart.toISOString();
+
+    return {
+      onDragOver: (e: DragEvent<HTMLDivElement>) => {
+        if (!draggedId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (dropTarget !== key) setDropTarget(key);
+      },
+      onDragLeave: (e: DragEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+      },
+      onDrop: (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const followUpId = e.dataTransfer.getData('text/plain') || draggedId;
+        const followUp = followUps.find((f) => f.id === followUpId);
+        handleDragEnd();
+        if (!followUp) return;
+
+        const original = new Date(followUp.follow_up_date);
+        const next = new Date(slotStart);
+        if (granularity === 'day') {
+          next.setHours(original.getHours(), original.getMinutes(), 0, 0);
+        } else {
+          next.setMinutes(original.getMinutes(), 0, 0);
+        }
+
+        if (next.getTime() !== original.getTime()) {
+          onReschedule(followUp, next);
+        }
+      },
+      isTarget: dropTarget === key,
+    };
+  }
+
+  function renderEvent(followUp: AgendaFollowUp, detailed = false) {
+    const stage = getStage(followUp.inquiry.status);
+    const stageColor = stage?.color ?? '#6b7280';
+    const draggable = canReschedule(followUp);
+    const inactive = followUp.state === 'cancelled' || followUp.state === 'completed';
+
+    return (
+      <button
+        key={followUp.id}
+        draggable={draggable}
+        onDragStart={(e) => handleDragStart(e, followUp)}
+        onDragEnd={handleDragEnd}
+        onClick={(e) => {
+          e.stopPropagation();
+          onEventClick(followUp);
+        }}
+        title={`${format(new Date(followUp.follow_up_date), 'p')} · ${followUp.inquiry.student_name} · ${
+          stage?.label ?? followUp.inquiry.status
+        }${followUp.inquiry.assigned_user ? ` · ${followUp.inquiry.assigned_user.full_name}` : ''}`}
+        className={`w-full flex items-center gap-1.5 text-left text-xs rounded-md border-l-4 px-1.5 py-1 truncate transition hover:brightness-95 ${
+          draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+        } ${inactive ? 'opacity-50 line-through' : ''} ${draggedId === followUp.id ? 'opacity-40' : ''}`}
+        style={{ borderLeftColor: counselorColor(followUp.inquiry.assigned_to), backgroundColor: `${stageColor}26` }}
+      >
+        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: stageColor }} />
+        <span className="font-semibold text-gray-700 shrink-0">{format(new Date(followUp.follow_up_date), 'p')}</span>
+        <span className="text-gray-900 truncate">{followUp.inquiry.student_name}</span>
+        {followUp.outcome === 'visited_campus' && <MapPin className="w-3 h-3 shrink-0 text-gray-600" />}
+        {detailed && (
+          <span className="text-gray-600 truncate hidden md:inline">— {followUp.notes}</span>
+        )}
+      </button>
+    );
+  }
+
+  const eventsOn = (day: Date) => followUps.filter((f) => isSameDay(new Date(f.follow_up_date), day));
+
+  if (view === 'month') {
+    const { from, to } = getCalendarRange('month', cursor);
+    const days = eachDayOfInterval({ start: from, end: to });
+
+    return (
+      <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase text-center">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const dayEvents = eventsOn(day);
+            const { isTarget, ...handlers } = dropHandlers(startOfDay(day), 'day');
+
+            return (
+              <div
+                key={day.toISOString()}
+                {...handlers}
+                onClick={() => onDayClick(day)}
+                className={`min-h-28 border-b border-r border-gray-100 p-1.5 space-y-1 cursor-pointer transition ${
+                  isTarget ? 'bg-primary-50' : isSameMonth(day, cursor) ? 'bg-white hover:bg-gray-50' : 'bg-gray-50'
+                }`}
+              >
+                <div
+                  className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ${
+                    isToday(day)
+                      ? 'bg-primary-600 text-white'
+                      : isSameMonth(day, cursor)
+                        ? 'text-gray-900'
+                        : 'text-gray-400'
+                  }`}
+                >
+                  {format(day, 'd')}
+                </div>
+                {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map((followUp) => renderEvent(followUp))}
+                {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                  <p className="text-xs text-primary-700 font-medium px-1">
+                    +{dayEvents.length - MAX_EVENTS_PER_DAY} more
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  const days = view === 'week'
+    ? eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) })
+    : [startOfDay(cursor)];
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden">
+      <div
+        className="grid border-b border-gray-200 bg-gray-50"
+        style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}
+      >
+        <div />
+        {days.map((day) => (
+          <button
+            key={day.toISOString()}
+            onClick={() => onDayClick(day)}
+            className={`px-2 py-2 text-sm font-medium text-center transition hover:bg-gray-100 ${
+              isToday(day) ? 'text-primary-700' : 'text-gray-700'
+            }`}
+          >
+            {format(day, view === 'week' ? 'EEE d' : 'EEEE, MMMM d')}
+          </button>
+        ))}
+      </div>
+      <div ref={scrollRef} className="max-h-[65vh] overflow-y-auto relative">
+        {hours.map((hour) => (
+          <div
+            key={hour}
+            data-hour={hour}
+            className="grid border-b border-gray-100"
+            style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}
+          >
+            <div className="px-2 py-1 text-xs text-gray-500 text-right">
+              {format(addHours(startOfDay(cursor), hour), 'h a')}
+            </div>
+            {days.map((day) => {
+              const slotStart = addHours(startOfDay(day), hour);
+              const slotEvents = eventsOn(day).filter((f) => new Date(f.follow_up_date).getHours() === hour);
+              const { isTarget, ...handlers } = dropHandlers(slotStart, 'hour');
+
+              return (
+                <div
+                  key={day.toISOString()}
+                  {...handlers}
+                  className={`min-h-12 border-l border-gray-100 p-1 space-y-1 transition ${
+                    isTarget ? 'bg-primary-50' : ''
+                  }`}
+                >
+                  {slotEvents.map((followUp) => renderEvent(followUp, view === 'day'))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
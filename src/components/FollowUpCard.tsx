@@ -0,0 +1,218 @@
+import { useState, FormEvent } from 'react';
+import { Calendar, Pencil, Trash2, CheckCircle } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { format } from 'date-fns';
+import { FOLLOW_UP_STATES, FOLLOW_UP_OUTCOMES, FollowUpState, FollowUpOutcome, toDateTimeLocal } from '../lib/followUps';
+import { VoiceRecordingPlayer } from './VoiceRecordingPlayer';
+
+type FollowUp = Database['public']['Tables']['follow_ups']['Row'] & {
+  creator?: { full_name: string } | null;
+};
+
+type FollowUpFormData = {
+  notes: string;
+  follow_up_date: string;
+  state: FollowUpState;
+  outcome: FollowUpOutcome | '';
+};
+
+function toFormData(followUp: FollowUp, changes: Partial<FollowUpFormData> = {}): FollowUpFormData {
+  return {
+    notes: followUp.notes,
+    follow_up_date: toDateTimeLocal(followUp.follow_up_date),
+    state: followUp.state,
+    outcome: followUp.outcome ?? '',
+    ...changes,
+  };
+}
+
+interface FollowUpCardProps {
+  followUp: FollowUp;
+  canManage: boolean;
+  onChange: () => void;
+}
+
+export function FollowUpCard({ followUp, canManage, onChange }: FollowUpCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(() => toFormData(followUp));
+
+  function startEditing(changes: Partial<FollowUpFormData> = {}) {
+    setFormData(toFormData(followUp, changes));
+    setEditing(true);
+  }
+
+  async function handleSave(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('follow_ups')
+        .update({
+          notes: formData.notes,
+          follow_up_date: new Date(formData.follow_up_date).toISOString(),
+          state: formData.state,
+          outcome: formData.outcome || null,
+        })
+        .eq('id', followUp.id);
+
+      if (error) throw error;
+      setEditing(false);
+      onChange();
+    } catch (error) {
+      console.error('Error updating follow-up:', error);
+      alert('Failed to update follow-up. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!window.confirm('Delete this follow-up? It will still appear in the inquiry history.')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('follow_ups')
+        .delete()
+        .eq('id', followUp.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error deleting follow-up:', error);
+      alert('Failed to delete follow-up. Please try again.');
+    }
+  }
+
+  const state = FOLLOW_UP_STATES[followUp.state];
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="bg-gray-50 rounded-lg p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Date & Time *</label>
+            <input
+              type="datetime-local"
+              required
+              value={formData.follow_up_date}
+              onChange={(e) => setFormData({ ...formData, follow_up_date: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">State</label>
+            <select
+              value={formData.state}
+              onChange={(e) => setFormData({ ...formData, state: e.target.value as FollowUpState })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            >
+              {Object.entries(FOLLOW_UP_STATES).map(([value, { label }]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Outcome</label>
+            <select
+              value={formData.outcome}
+              onChange={(e) => setFormData({ ...formData, outcome: e.target.value as FollowUpOutcome | '' })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            >
+              <option value="">-- No outcome yet --</option>
+              {Object.entries(FOLLOW_UP_OUTCOMES).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Notes *</label>
+          <textarea
+            required
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            rows={3}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition resize-none"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 py-2 px-4 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Follow-up'}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex justify-between items-start mb-2 gap-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <Calendar className="w-4 h-4" />
+          <span>{format(new Date(followUp.follow_up_date), 'PPp')}</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${state.className}`}>{state.label}</span>
+          {followUp.outcome && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-white border border-gray-200 text-gray-700">
+              {FOLLOW_UP_OUTCOMES[followUp.outcome]}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {followUp.creator && (
+            <span className="text-sm text-gray-600 mr-2">by {followUp.creator.full_name}</span>
+          )}
+          {canManage && (
+            <>
+              {followUp.state === 'scheduled' && (
+                <button
+                  onClick={() => startEditing({ state: 'completed' })}
+                  className="p-1.5 rounded-lg text-green-600 hover:bg-green-50 transition"
+                  title="Mark as completed"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => startEditing()}
+                className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-200 transition"
+                title="Edit follow-up"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDelete}
+                className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition"
+                title="Delete follow-up"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <p className="text-gray-900 mb-2">{followUp.notes}</p>
+      {followUp.voice_recording_path && <VoiceRecordingPlayer path={followUp.voice_recording_path} />}
+    </div>
+  );
+}
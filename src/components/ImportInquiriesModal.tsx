@@ -0,0 +1,483 @@
+import { useEffect, useState, ChangeEvent } from 'react';
+import { motion } from 'framer-motion';
+import { X, Upload, FileSpreadsheet, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { readSpreadsheet, SpreadsheetData } from '../lib/spreadsheet';
+import { normalizePhone, findExistingPhones } from '../lib/inquiries';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+type ImportField = 'student_name' | 'contact_number' | 'email' | 'course_interested' | 'more_input' | 'assignee';
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'summary';
+
+interface ImportRow {
+  rowNumber: number;
+  student_name: string;
+  contact_number: string;
+  email: string;
+  course_interested: string;
+  more_input: string;
+  assigneeLabel: string;
+  assigned_to: string | null;
+  errors: string[];
+  duplicate: 'existing' | 'file' | null;
+}
+
+interface ImportSummary {
+  inserted: number;
+  skippedInvalid: number;
+  skippedDuplicates: number;
+  failures: { rows: number[]; message: string }[];
+}
+
+const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: 'student_name', label: 'Student Name', required: true, aliases: ['student name', 'name', 'student', 'full name'] },
+  { key: 'contact_number', label: 'Contact Number', required: true, aliases: ['contact number', 'phone', 'mobile', 'contact', 'phone number', 'mobile number'] },
+  { key: 'email', label: 'Email', required: false, aliases: ['email', 'e-mail', 'email address'] },
+  { key: 'course_interested', label: 'Course Interested', required: true, aliases: ['course interested', 'course', 'program', 'programme'] },
+  { key: 'more_input', label: 'Additional Notes', required: false, aliases: ['additional notes', 'notes', 'remarks', 'comments', 'more input'] },
+  { key: 'assignee', label: 'Assignee (email or name)', required: false, aliases: ['assignee', 'assigned to', 'counselor', 'counsellor'] },
+];
+
+const BATCH_SIZE = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ImportInquiriesModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function ImportInquiriesModal({ onClose, onSuccess }: ImportInquiriesModalProps) {
+  const { profile } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<Record<ImportField, number>>({
+    student_name: -1,
+    contact_number: -1,
+    email: -1,
+    course_interested: -1,
+    more_input: -1,
+    assignee: -1,
+  });
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  async function loadProfiles() {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+    }
+  }
+
+  async function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        throw new Error('The file does not contain any data rows.');
+      }
+
+      const guessed = { ...mapping };
+      IMPORT_FIELDS.forEach((field) => {
+        guessed[field.key] = data.headers.findIndex((header) =>
+          field.aliases.includes(header.toLowerCase().replace(/[_-]+/g, ' ').trim())
+        );
+      });
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessed);
+      setStep('map');
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      setError(error.message || 'Could not read the file. Please upload a CSV or XLSX file.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function findAssignee(value: string): Profile | undefined {
+    const needle = value.toLowerCase();
+    return profiles.find(
+      (p) => p.email.toLowerCase() === needle || p.full_name.toLowerCase() === needle
+    );
+  }
+
+  async function handleValidate() {
+    if (!sheet) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const cell = (row: string[], field: ImportField) => (mapping[field] >= 0 ? row[mapping[field]] : '');
+      const seenPhones = new Set<string>();
+
+      const parsed: ImportRow[] = sheet.rows.map((row, index) => {
+        const values = {
+          student_name: cell(row, 'student_name'),
+          contact_number: cell(row, 'contact_number'),
+          email: cell(row, 'email'),
+          course_interested: cell(row, 'course_interested'),
+          more_input: cell(row, 'more_input'),
+        };
+        const assigneeLabel = cell(row, 'assignee');
+        const assignee = assigneeLabel ? findAssignee(assigneeLabel) : undefined;
+        const errors: string[] = [];
+
+        if (!values.student_name) errors.push('Student name is required');
+        if (!values.contact_number) {
+          errors.push('Contact number is required');
+        } else if (normalizePhone(values.contact_number).length < 7) {
+          errors.push('Contact number looks invalid');
+        }
+        if (!values.course_interested) errors.push('Course is required');
+        if (values.email && !EMAIL_PATTERN.test(values.email)) errors.push('Email is invalid');
+        if (assigneeLabel && !assignee) errors.push(`Unknown assignee "${assigneeLabel}"`);
+
+        const phone = normalizePhone(values.contact_number);
+        const duplicateInFile = phone !== '' && seenPhones.has(phone);
+        seenPhones.add(phone);
+
+        return {
+          rowNumber: index + 2,
+          ...values,
+          assigneeLabel,
+          assigned_to: assignee?.id ?? null,
+          errors,
+          duplicate: duplicateInFile ? 'file' : null,
+        };
+      });
+
+      const existing = await findExistingPhones(parsed.map((row) => normalizePhone(row.contact_number)));
+      parsed.forEach((row) => {
+        if (existing.has(normalizePhone(row.contact_number))) {
+          row.duplicate = 'existing';
+        }
+      });
+
+      setRows(parsed);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      setError('Failed to check for duplicates. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImport() {
+    const importable = rows.filter(
+      (row) => row.errors.length === 0 && !(skipDuplicates && row.duplicate)
+    );
+    const result: ImportSummary = {
+      inserted: 0,
+      skippedInvalid: rows.filter((row) => row.errors.length > 0).length,
+      skippedDuplicates: skipDuplicates
+        ? rows.filter((row) => row.errors.length === 0 && row.duplicate).length
+        : 0,
+      failures: [],
+    };
+
+    setStep('importing');
+    setProgress(0);
+
+    for (let i = 0; i < importable.length; i += BATCH_SIZE) {
+      const batch = importable.slice(i, i + BATCH_SIZE);
+
+      try {
+        const { error } = await supabase.from('inquiries').insert(
+          batch.map((row) => ({
+            student_name: row.student_name,
+            contact_number: row.contact_number,
+            email: row.email || null,
+            course_interested: row.course_interested,
+            more_input: row.more_input || null,
+            assigned_to: row.assigned_to,
+            created_by: profile?.id,
+          }))
+        );
+
+        if (error) throw error;
+        result.inserted += batch.length;
+      } catch (error: any) {
+        console.error('Error importing batch:', error);
+        result.failures.push({
+          rows: batch.map((row) => row.rowNumber),
+          message: error.message || 'Unknown error',
+        });
+      }
+
+      setProgress(Math.min(i + BATCH_SIZE, importable.length) / importable.length);
+    }
+
+    setSummary(result);
+    setStep('summary');
+  }
+
+  const missingRequired = IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] < 0);
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+  const duplicateCount = rows.filter((row) => row.errors.length === 0 && row.duplicate).length;
+  const importCount = skipDuplicates ? validCount - duplicateCount : validCount;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full my-8"
+      >
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center rounded-t-2xl">
+          <h2 className="text-2xl font-heading font-bold text-gray-900">Import Inquiries</h2>
+          <button
+            onClick={step === 'summary' ? onSuccess : onClose}
+            disabled={step === 'importing'}
+            className="p-2 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-xl p-12 cursor-pointer hover:border-primary-400 hover:bg-primary-50 transition">
+              <FileSpreadsheet className="w-12 h-12 text-gray-400" />
+              <span className="font-medium text-gray-900">
+                {loading ? 'Reading file...' : 'Choose a CSV or XLSX file'}
+              </span>
+              <span className="text-sm text-gray-500">The first row must contain column headers</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={handleFileChange}
+                disabled={loading}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                <span className="font-semibold">{fileName}</span> — {sheet.rows.length} rows. Match each field
+                to a column in your file.
+              </p>
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+                  <label className="text-sm font-medium text-gray-700">
+                    {field.label} {field.required && '*'}
+                  </label>
+                  <select
+                    value={mapping[field.key]}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                  >
+                    <option value={-1}>-- Not in file --</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map the required fields: {missingRequired.map((field) => field.label).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="bg-green-50 rounded-lg p-3">
+                  <p className="text-2xl font-bold text-green-700">{validCount - duplicateCount}</p>
+                  <p className="text-xs text-green-700">Ready</p>
+                </div>
+                <div className="bg-yellow-50 rounded-lg p-3">
+                  <p className="text-2xl font-bold text-yellow-700">{duplicateCount}</p>
+                  <p className="text-xs text-yellow-700">Possible duplicates</p>
+                </div>
+                <div className="bg-red-50 rounded-lg p-3">
+                  <p className="text-2xl font-bold text-red-700">{rows.length - validCount}</p>
+                  <p className="text-xs text-red-700">With errors (skipped)</p>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(e) => setSkipDuplicates(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Skip rows whose phone number already exists or repeats in the file
+              </label>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      {['Row', 'Student', 'Contact', 'Course', 'Assignee', 'Result'].map((heading) => (
+                        <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map((row) => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : row.duplicate ? 'bg-yellow-50' : ''}>
+                        <td className="px-4 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-4 py-2 text-gray-900">{row.student_name}</td>
+                        <td className="px-4 py-2 text-gray-600">{row.contact_number}</td>
+                        <td className="px-4 py-2 text-gray-600">{row.course_interested}</td>
+                        <td className="px-4 py-2 text-gray-600">{row.assigneeLabel}</td>
+                        <td className="px-4 py-2">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-700">{row.errors.join('; ')}</span>
+                          ) : row.duplicate === 'existing' ? (
+                            <span className="text-yellow-700">Phone already exists</span>
+                          ) : row.duplicate === 'file' ? (
+                            <span className="text-yellow-700">Repeated in file</span>
+                          ) : (
+                            <span className="text-green-700">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-8 space-y-4 text-center">
+              <p className="font-medium text-gray-900">Importing inquiries...</p>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-primary-500 to-primary-600 transition-all"
+                  style={{ width: `${Math.round(progress * 100)}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600">{Math.round(progress * 100)}%</p>
+            </div>
+          )}
+
+          {step === 'summary' && summary && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <CheckCircle className="w-8 h-8 text-green-600" />
+                <p className="text-lg font-semibold text-gray-900">
+                  Imported {summary.inserted} {summary.inserted === 1 ? 'inquiry' : 'inquiries'}
+                </p>
+              </div>
+              <ul className="text-sm text-gray-700 space-y-1">
+                <li>{summary.skippedInvalid} rows skipped because of validation errors</li>
+                <li>{summary.skippedDuplicates} rows skipped as duplicates</li>
+                <li>{summary.failures.reduce((sum, f) => sum + f.rows.length, 0)} rows failed to save</li>
+              </ul>
+              {summary.failures.map((failure, index) => (
+                <div key={index} className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  Rows {failure.rows[0]}–{failure.rows[failure.rows.length - 1]}: {failure.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 px-6 py-4 flex gap-4">
+          {step === 'map' && (
+            <>
+              <button
+                onClick={() => setStep('upload')}
+                className="flex items-center justify-center gap-2 flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                <ArrowLeft className="w-5 h-5" />
+                Choose Another File
+              </button>
+              <button
+                onClick={handleValidate}
+                disabled={loading || missingRequired.length > 0}
+                className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Validating...' : 'Preview Import'}
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button
+                onClick={() => setStep('map')}
+                className="flex items-center justify-center gap-2 flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                <ArrowLeft className="w-5 h-5" />
+                Back to Mapping
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importCount === 0}
+                className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <Upload className="w-5 h-5" />
+                Import {importCount} {importCount === 1 ? 'Row' : 'Rows'}
+              </button>
+            </>
+          )}
+          {step === 'summary' && (
+            <button
+              onClick={onSuccess}
+              className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
+            >
+              Done
+            </button>
+          )}
+          {(step === 'upload' || step === 'importing') && (
+            <button
+              onClick={onClose}
+              disabled={step === 'importing'}
+              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
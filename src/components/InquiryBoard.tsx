@@ -0,0 +1,142 @@
+import { useState, DragEvent } from 'react';
+import { Phone, BookOpen, User, GripVertical } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { format } from 'date-fns';
+import { usePipeline } from '../contexts/PipelineContext';
+import { StatusBadge } from './StatusBadge';
+import { UpdatedBadge } from './UpdatedBadge';
+
+type Inquiry = Database['public']['Tables']['inquiries']['Row'] & {
+  assigned_user?: { full_name: string } | null;
+};
+
+interface InquiryBoardProps {
+  inquiries: Inquiry[];
+  /** Server-side total per stage; columns may hold only their first cards. */
+  columnCounts: Record<string, number>;
+  highlightedIds?: Set<string>;
+  onInquiryClick: (inquiry: Inquiry) => void;
+  onStatusChange: (inquiry: Inquiry, status: string) => void;
+  onLoadMore: (status: string) => void;
+}
+
+export function InquiryBoard({
+  inquiries,
+  columnCounts,
+  highlightedIds,
+  onInquiryClick,
+  onStatusChange,
+  onLoadMore,
+}: InquiryBoardProps) {
+  const { stages } = usePipeline();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  function handleDragStart(e: DragEvent<HTMLDivElement>, inquiry: Inquiry) {
+    e.dataTransfer.setData('text/plain', inquiry.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedId(inquiry.id);
+  }
+
+  function handleDragEnd() {
+    setDraggedId(null);
+    setDropTarget(null);
+  }
+
+  function handleDragOver(e: DragEvent<HTMLDivElement>, status: string) {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== status) setDropTarget(status);
+  }
+
+  function handleDrop(e: DragEvent<HTMLDivElement>, status: string) {
+    e.preventDefault();
+    const inquiryId = e.dataTransfer.getData('text/plain') || draggedId;
+    const inquiry = inquiries.find((i) => i.id === inquiryId);
+
+    handleDragEnd();
+    if (inquiry && inquiry.status !== status) {
+      onStatusChange(inquiry, status);
+    }
+  }
+
+  return (
+    <div className="flex gap-6 overflow-x-auto pb-4">
+      {stages.map((stage) => {
+        const columnInquiries = inquiries.filter((inquiry) => inquiry.status === stage.key);
+        const columnCount = Math.max(columnCounts[stage.key] ?? 0, columnInquiries.length);
+        const isTarget = dropTarget === stage.key;
+
+        return (
+          <div
+            key={stage.key}
+            onDragOver={(e) => handleDragOver(e, stage.key)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, stage.key)}
+            className={`flex-shrink-0 w-80 rounded-xl border-2 border-t-4 p-4 transition ${
+              isTarget ? 'border-primary-400 bg-primary-50' : 'border-transparent bg-gray-100'
+            }`}
+            style={{ borderTopColor: stage.color }}
+          >
+            <div className="flex justify-between items-center mb-4">
+              <StatusBadge status={stage.key} />
+              <span className="text-sm font-medium text-gray-500">{columnCount}</span>
+            </div>
+
+            <div className="space-y-3 min-h-24">
+              {columnInquiries.map((inquiry) => (
+                <div
+                  key={inquiry.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, inquiry)}
+                  onDragEnd={handleDragEnd}
+                  onClick={() => onInquiryClick(inquiry)}
+                  className={`bg-white rounded-lg shadow-sm p-4 border cursor-pointer hover:shadow-md transition ${
+                    draggedId === inquiry.id ? 'opacity-50' : ''
+                  } ${highlightedIds?.has(inquiry.id) ? 'border-amber-300 ring-2 ring-amber-200' : 'border-gray-100'}`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h4 className="font-heading font-semibold text-gray-900">{inquiry.student_name}</h4>
+                      {highlightedIds?.has(inquiry.id) && <UpdatedBadge />}
+                    </div>
+                    <GripVertical className="w-4 h-4 text-gray-400 cursor-grab" />
+                  </div>
+                  <div className="space-y-1 text-sm text-gray-600">
+                    <div className="flex items-center gap-2">
+                      <Phone className="w-3 h-3" />
+                      <span>{inquiry.contact_number}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <BookOpen className="w-3 h-3" />
+                      <span className="truncate">{inquiry.course_interested}</span>
+                    </div>
+                    {inquiry.assigned_user && (
+                      <div className="flex items-center gap-2">
+                        <User className="w-3 h-3" />
+                        <span className="truncate">{inquiry.assigned_user.full_name}</span>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">
+                    {format(new Date(inquiry.created_at), 'MMM d, yyyy')}
+                  </p>
+                </div>
+              ))}
+              {columnCount > columnInquiries.length && (
+                <button
+                  onClick={() => onLoadMore(stage.key)}
+                  className="w-full py-2 text-sm text-primary-700 font-medium rounded-lg hover:bg-white transition"
+                >
+                  Show more ({columnCount - columnInquiries.length} not shown)
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
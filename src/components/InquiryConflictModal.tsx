@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, GitCompare } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { usePipeline } from '../contexts/PipelineContext';
+import { format } from 'date-fns';
+
+type Inquiry = Database['public']['Tables']['inquiries']['Row'];
+
+export type InquiryEditValues = Pick<Inquiry, 'status' | 'more_input' | 'loss_reason_id' | 'loss_note'>;
+
+type EditField = keyof InquiryEditValues;
+
+const FIELD_LABELS: Record<EditField, string> = {
+  status: 'Status',
+  more_input: 'Additional Notes',
+  loss_reason_id: 'Loss Reason',
+  loss_note: 'Loss Note',
+};
+
+interface InquiryConflictModalProps {
+  mine: InquiryEditValues;
+  current: Inquiry;
+  onResolve: (values: InquiryEditValues) => void;
+  onCancel: () => void;
+}
+
+export function InquiryConflictModal({ mine, current, onResolve, onCancel }: InquiryConflictModalProps) {
+  const { getStage, getLossReason } = usePipeline();
+  const conflictingFields = (Object.keys(FIELD_LABELS) as EditField[]).filter(
+    (field) => (mine[field] ?? null) !== (current[field] ?? null)
+  );
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'current'>>(() =>
+    Object.fromEntries(conflictingFields.map((field) => [field, 'mine']))
+  );
+
+  function displayValue(field: EditField, value: string | null) {
+    if (!value) return '—';
+    if (field === 'status') return getStage(value)?.label ?? value;
+    if (field === 'loss_reason_id') return getLossReason(value)?.label ?? value;
+    return value;
+  }
+
+  function handleResolve() {
+    const values = { ...mine };
+    conflictingFields.forEach((field) => {
+      if (choices[field] === 'current') {
+        values[field] = current[field] as never;
+      }
+    });
+    onResolve(values);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full"
+      >
+        <div className="border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h2 className="flex items-center gap-2 text-2xl font-heading font-bold text-gray-900">
+            <GitCompare className="w-6 h-6 text-amber-600" />
+            Resolve Conflicting Changes
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Someone saved this inquiry on {format(new Date(current.updated_at), 'PPp')}, after you started editing.
+            Choose which value to keep for each field, then save again.
+          </p>
+
+          {conflictingFields.length === 0 ? (
+            <p className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+              The other change did not touch the fields you edited. Saving will keep your values.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Field</th>
+                    <th className="py-2 pr-4 font-medium">Your version</th>
+                    <th className="py-2 font-medium">Current version</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {conflictingFields.map((field) => (
+                    <tr key={field} className="align-top">
+                      <td className="py-3 pr-4 font-medium text-gray-900 whitespace-nowrap">{FIELD_LABELS[field]}</td>
+                      {(['mine', 'current'] as const).map((side) => (
+                        <td key={side} className={side === 'mine' ? 'py-3 pr-4' : 'py-3'}>
+                          <label
+                            className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer transition ${
+                              choices[field] === side
+                                ? 'border-primary-500 bg-primary-50'
+                                : 'border-gray-200 hover:bg-gray-50'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name={field}
+                              checked={choices[field] === side}
+                              onChange={() => setChoices({ ...choices, [field]: side })}
+                              className="mt-0.5 text-primary-600 focus:ring-primary-500"
+                            />
+                            <span className="text-gray-800 whitespace-pre-wrap break-words">
+                              {displayValue(field, side === 'mine' ? mine[field] : current[field])}
+                            </span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleResolve}
+              className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
+            >
+              Save Selected Values
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,39 +1,103 @@
-import { useEffect, useState, FormEvent } from 'react';
+import { useEffect, useRef, useState, FormEvent } from 'react';
 import { motion } from 'framer-motion';
-import { X, Plus, Mic, Calendar, MessageSquare, User, Phone, Mail, BookOpen, Trash2 } from 'lucide-react';
+import {
+  X,
+  Plus,
+  Calendar,
+  MessageSquare,
+  User,
+  Phone,
+  Mail,
+  BookOpen,
+  Trash2,
+  FileDown,
+  XCircle,
+  AlertTriangle,
+} from 'lucide-react';
 import { supabase, Database } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { usePipeline } from '../contexts/PipelineContext';
 import { format } from 'date-fns';
-
-type Inquiry = Database['public']['Tables']['inquiries']['Row'];
+import { downloadInquiryDossier } from '../lib/export';
+import { InquiryHistoryTimeline } from './InquiryHistoryTimeline';
+import { LossReasonFields } from './LossReasonFields';
+import { VoiceRecorder } from './VoiceRecorder';
+import { FollowUpCard } from './FollowUpCard';
+import { uploadVoiceRecording } from '../lib/voiceRecordings';
+import { FOLLOW_UP_STATES, FOLLOW_UP_OUTCOMES, FollowUpState, FollowUpOutcome } from '../lib/followUps';
+import { RowChange, subscribeToRowChanges } from '../lib/realtime';
+import { InquiryConflictModal, InquiryEditValues } from './InquiryConflictModal';
+
+type Inquiry = Database['public']['Tables']['inquiries']['Row'] & {
+  assigned_user?: { full_name: string } | null;
+};
 type FollowUp = Database['public']['Tables']['follow_ups']['Row'] & {
   creator?: { full_name: string } | null;
 };
 
+const EMPTY_FOLLOW_UP = {
+  notes: '',
+  follow_up_date: '',
+  state: 'scheduled' as FollowUpState,
+  outcome: '' as FollowUpOutcome | '',
+  voice_file: null as File | null,
+};
+
 interface InquiryDetailsModalProps {
   inquiry: Inquiry;
   onClose: () => void;
   onUpdate: () => void;
 }
 
-export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetailsModalProps) {
+export function InquiryDetailsModal({ inquiry: initialInquiry, onClose, onUpdate }: InquiryDetailsModalProps) {
   const { profile } = useAuth();
+  const { stages, getStage, getLossReason } = usePipeline();
+  const [inquiry, setInquiry] = useState(initialInquiry);
+  // The version the edit form was filled from; saves only apply if the row
+  // still has this `updated_at`.
+  const [editBase, setEditBase] = useState(initialInquiry);
+  const [conflict, setConflict] = useState<{ mine: InquiryEditValues; current: Inquiry } | null>(null);
   const [followUps, setFollowUps] = useState<FollowUp[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddFollowUp, setShowAddFollowUp] = useState(false);
   const [uploadingVoice, setUploadingVoice] = useState(false);
-  const [followUpData, setFollowUpData] = useState({
-    notes: '',
-    follow_up_date: '',
-    voice_file: null as File | null,
-  });
+  const [recordingVoice, setRecordingVoice] = useState(false);
+  const [followUpData, setFollowUpData] = useState(EMPTY_FOLLOW_UP);
   const [updatedStatus, setUpdatedStatus] = useState(inquiry.status);
   const [updatedMoreInput, setUpdatedMoreInput] = useState(inquiry.more_input || '');
+  const [lossReasonId, setLossReasonId] = useState(inquiry.loss_reason_id || '');
+  const [lossNote, setLossNote] = useState(inquiry.loss_note || '');
+  const [activeTab, setActiveTab] = useState<'follow_ups' | 'history'>('follow_ups');
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [remoteChange, setRemoteChange] = useState<'updated' | 'deleted' | null>(null);
+  const deletingRef = useRef(false);
+  const applyInquiryChangeRef = useRef(applyInquiryChange);
+  applyInquiryChangeRef.current = applyInquiryChange;
+  const applyFollowUpChangeRef = useRef(applyFollowUpChange);
+  applyFollowUpChangeRef.current = applyFollowUpChange;
 
   useEffect(() => {
     loadFollowUps();
   }, [inquiry.id]);
 
+  useEffect(() => {
+    const unsubscribeInquiry = subscribeToRowChanges(
+      'inquiries',
+      (change) => applyInquiryChangeRef.current(change),
+      `id=eq.${inquiry.id}`
+    );
+    const unsubscribeFollowUps = subscribeToRowChanges(
+      'follow_ups',
+      (change) => applyFollowUpChangeRef.current(change),
+      `inquiry_id=eq.${inquiry.id}`
+    );
+
+    return () => {
+      unsubscribeInquiry();
+      unsubscribeFollowUps();
+    };
+  }, [inquiry.id]);
+
   async function loadFollowUps() {
     try {
       const { data, error } = await supabase
@@ -59,62 +123,156 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
     setLoading(true);
 
     try {
-      let voiceUrl = null;
+      let voicePath = null;
 
       if (followUpData.voice_file) {
         setUploadingVoice(true);
-        const fileExt = followUpData.voice_file.name.split('.').pop();
-        const fileName = `${inquiry.id}/${Date.now()}.${fileExt}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from('voice-recordings')
-          .upload(fileName, followUpData.voice_file);
-
-        if (uploadError) throw uploadError;
-
-        const { data: { publicUrl } } = supabase.storage
-          .from('voice-recordings')
-          .getPublicUrl(fileName);
-
-        voiceUrl = publicUrl;
+        voicePath = await uploadVoiceRecording(inquiry.id, followUpData.voice_file);
         setUploadingVoice(false);
       }
 
       const { error } = await supabase.from('follow_ups').insert({
         inquiry_id: inquiry.id,
         notes: followUpData.notes,
-        follow_up_date: followUpData.follow_up_date,
-        voice_recording_url: voiceUrl,
+        follow_up_date: new Date(followUpData.follow_up_date).toISOString(),
+        state: followUpData.state,
+        outcome: followUpData.outcome || null,
+        voice_recording_path: voicePath,
         created_by: profile?.id,
       });
 
       if (error) throw error;
 
-      setFollowUpData({ notes: '', follow_up_date: '', voice_file: null });
+      setFollowUpData(EMPTY_FOLLOW_UP);
       setShowAddFollowUp(false);
-      loadFollowUps();
-      onUpdate();
+      handleFollowUpsChanged();
     } catch (error) {
       console.error('Error adding follow-up:', error);
       alert('Failed to add follow-up. Please try again.');
     } finally {
+      setUploadingVoice(false);
       setLoading(false);
     }
   }
 
-  async function handleUpdateInquiry() {
+  function resetForm(row: Inquiry) {
+    setUpdatedStatus(row.status);
+    setUpdatedMoreInput(row.more_input || '');
+    setLossReasonId(row.loss_reason_id || '');
+    setLossNote(row.loss_note || '');
+  }
+
+  function formMatches(row: Inquiry) {
+    return (
+      updatedStatus === row.status &&
+      updatedMoreInput === (row.more_input || '') &&
+      lossReasonId === (row.loss_reason_id || '') &&
+      lossNote === (row.loss_note || '')
+    );
+  }
+
+  // Keeps the modal in step with changes made elsewhere. Unsaved edits are
+  // never overwritten; the user is told the inquiry moved on underneath them.
+  function applyInquiryChange(change: RowChange<'inquiries'>) {
+    if (change.eventType === 'DELETE') {
+      if (change.old.id === inquiry.id && !deletingRef.current) {
+        setRemoteChange('deleted');
+      }
+      return;
+    }
+
+    if (!change.new || change.new.id !== inquiry.id) return;
+
+    const latest = { ...inquiry, ...change.new };
+
+    // Same version: only derived columns such as next_follow_up_at moved.
+    if (latest.updated_at === editBase.updated_at) {
+      setInquiry(latest);
+      setEditBase(latest);
+      return;
+    }
+
+    const hasOwnEdits = !formMatches(editBase);
+
+    setInquiry(latest);
+    setHistoryRefreshKey((key) => key + 1);
+
+    if (hasOwnEdits && !formMatches(latest)) {
+      setRemoteChange('updated');
+    } else {
+      setEditBase(latest);
+      resetForm(latest);
+    }
+  }
+
+  function applyFollowUpChange(change: RowChange<'follow_ups'>) {
+    const affected =
+      change.eventType === 'DELETE'
+        ? followUps.some((followUp) => followUp.id === change.old.id)
+        : change.new?.inquiry_id === inquiry.id;
+
+    if (affected) {
+      loadFollowUps();
+      setHistoryRefreshKey((key) => key + 1);
+    }
+  }
+
+  function discardOwnEdits() {
+    setEditBase(inquiry);
+    resetForm(inquiry);
+    setRemoteChange(null);
+  }
+
+  function handleFollowUpsChanged() {
+    loadFollowUps();
+    setHistoryRefreshKey((key) => key + 1);
+    onUpdate();
+  }
+
+  function handleUpdateInquiry() {
+    saveInquiry(
+      {
+        status: updatedStatus,
+        more_input: updatedMoreInput || null,
+        loss_reason_id: isLostStage ? lossReasonId : null,
+        loss_note: isLostStage ? lossNote.trim() || null : null,
+      },
+      editBase
+    );
+  }
+
+  async function saveInquiry(values: InquiryEditValues, base: Inquiry) {
+    if (getStage(values.status)?.kind === 'lost' && !values.loss_reason_id) {
+      alert('Please select why this inquiry was lost.');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const { error } = await supabase
+      // Only update the row if nobody saved it since `base` was loaded. An
+      // empty result means the condition failed and there is a conflict.
+      const { data, error } = await supabase
         .from('inquiries')
-        .update({
-          status: updatedStatus,
-          more_input: updatedMoreInput || null,
-        })
-        .eq('id', inquiry.id);
+        .update(values)
+        .eq('id', inquiry.id)
+        .eq('updated_at', base.updated_at)
+        .select();
 
       if (error) throw error;
+
+      const rows: Inquiry[] = data || [];
+      if (rows.length === 0) {
+        await handleConflict(values, base);
+        return;
+      }
+
+      const saved = { ...inquiry, ...rows[0] };
+      setInquiry(saved);
+      setEditBase(saved);
+      resetForm(saved);
+      setRemoteChange(null);
+      setHistoryRefreshKey((key) => key + 1);
       onUpdate();
     } catch (error) {
       console.error('Error updating inquiry:', error);
@@ -124,12 +282,51 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
     }
   }
 
+  async function handleConflict(mine: InquiryEditValues, base: Inquiry) {
+    const { data, error } = await supabase
+      .from('inquiries')
+      .select('*')
+      .eq('id', inquiry.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const row: Inquiry | null = data;
+    if (!row) {
+      setRemoteChange('deleted');
+      return;
+    }
+
+    // Same version as before means the update was refused rather than raced.
+    if (row.updated_at === base.updated_at) {
+      throw new Error('Inquiry update was not applied');
+    }
+
+    const current = { ...inquiry, ...row };
+    setInquiry(current);
+    setRemoteChange(null);
+    setConflict({ mine, current });
+  }
+
+  function handleResolveConflict(values: InquiryEditValues) {
+    if (!conflict) return;
+
+    setConflict(null);
+    setEditBase(conflict.current);
+    setUpdatedStatus(values.status);
+    setUpdatedMoreInput(values.more_input || '');
+    setLossReasonId(values.loss_reason_id || '');
+    setLossNote(values.loss_note || '');
+    saveInquiry(values, conflict.current);
+  }
+
   async function handleDeleteInquiry() {
     if (!window.confirm('Are you sure you want to delete this inquiry? This action cannot be undone.')) {
       return;
     }
 
     setLoading(true);
+    deletingRef.current = true;
 
     try {
       const { error } = await supabase
@@ -143,6 +340,7 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
     } catch (error) {
       console.error('Error deleting inquiry:', error);
       alert('Failed to delete inquiry. Please try again.');
+      deletingRef.current = false;
     } finally {
       setLoading(false);
     }
@@ -150,6 +348,8 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
 
   const canEdit = profile?.role === 'admin' || profile?.role === 'co_leader' || inquiry.assigned_to === profile?.id;
   const canDelete = profile?.role === 'admin';
+  const isLostStage = getStage(updatedStatus)?.kind === 'lost';
+  const currentLossReason = inquiry.loss_reason_id ? getLossReason(inquiry.loss_reason_id) : undefined;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
@@ -161,15 +361,54 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
       >
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center rounded-t-2xl">
           <h2 className="text-2xl font-heading font-bold text-gray-900">Inquiry Details</h2>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-gray-100 rounded-lg transition"
-          >
-            <X className="w-6 h-6 text-gray-500" />
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadInquiryDossier(inquiry, followUps, (key) => getStage(key)?.label ?? key)}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-primary-700 bg-primary-50 rounded-lg font-medium hover:bg-primary-100 transition"
+              title="Download PDF dossier"
+            >
+              <FileDown className="w-4 h-4" />
+              PDF
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-6 h-6 text-gray-500" />
+            </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {remoteChange === 'updated' && (
+            <div className="flex flex-wrap items-center gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <p className="flex-1 min-w-48">
+                Someone else changed this inquiry while you were editing. The details below are current; your unsaved
+                edits are still in the form.
+              </p>
+              <button
+                onClick={discardOwnEdits}
+                className="px-3 py-1.5 bg-white border border-amber-300 rounded-lg font-medium hover:bg-amber-100 transition"
+              >
+                Discard my edits
+              </button>
+              <button
+                onClick={() => setRemoteChange(null)}
+                className="px-3 py-1.5 rounded-lg font-medium hover:bg-amber-100 transition"
+              >
+                Keep editing
+              </button>
+            </div>
+          )}
+
+          {remoteChange === 'deleted' && (
+            <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              This inquiry was deleted by someone else. Changes can no longer be saved.
+            </div>
+          )}
+
           <div className="bg-gray-50 rounded-xl p-6 space-y-4">
             <div className="flex items-start gap-3">
               <User className="w-5 h-5 text-gray-600 mt-1" />
@@ -215,6 +454,17 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
                   </p>
                 </div>
               </div>
+
+              {currentLossReason && (
+                <div className="flex items-start gap-3">
+                  <XCircle className="w-5 h-5 text-gray-600 mt-1" />
+                  <div>
+                    <p className="text-sm text-gray-600">Loss Reason</p>
+                    <p className="font-semibold text-gray-900">{currentLossReason.label}</p>
+                    {inquiry.loss_note && <p className="text-sm text-gray-600 mt-1">{inquiry.loss_note}</p>}
+                  </div>
+                </div>
+              )}
             </div>
 
             {canEdit && (
@@ -225,15 +475,28 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
                   </label>
                   <select
                     value={updatedStatus}
-                    onChange={(e) => setUpdatedStatus(e.target.value as any)}
+                    onChange={(e) => setUpdatedStatus(e.target.value)}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
                   >
-                    <option value="pending">Pending</option>
-                    <option value="converted">Converted</option>
-                    <option value="dropped">Dropped</option>
+                    {stages.map((stage) => (
+                      <option key={stage.key} value={stage.key}>
+                        {stage.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
+                {isLostStage && (
+                  <LossReasonFields
+                    reasonId={lossReasonId}
+                    note={lossNote}
+                    onChange={(changes) => {
+                      if (changes.reasonId !== undefined) setLossReasonId(changes.reasonId);
+                      if (changes.note !== undefined) setLossNote(changes.note);
+                    }}
+                  />
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Additional Notes
@@ -249,7 +512,7 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
 
                 <button
                   onClick={handleUpdateInquiry}
-                  disabled={loading}
+                  disabled={loading || remoteChange === 'deleted'}
                   className="w-full py-2 px-4 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
                 >
                   {loading ? 'Updating...' : 'Update Inquiry'}
@@ -260,8 +523,25 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
 
           <div>
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-xl font-heading font-bold text-gray-900">Follow-ups</h3>
-              {canEdit && (
+              <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => setActiveTab('follow_ups')}
+                  className={`px-4 py-2 rounded-md font-heading font-semibold transition ${
+                    activeTab === 'follow_ups' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  Follow-ups ({followUps.length})
+                </button>
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`px-4 py-2 rounded-md font-heading font-semibold transition ${
+                    activeTab === 'history' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  History
+                </button>
+              </div>
+              {canEdit && activeTab === 'follow_ups' && (
                 <button
                   onClick={() => setShowAddFollowUp(!showAddFollowUp)}
                   className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition"
@@ -272,101 +552,132 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
               )}
             </div>
 
-            {showAddFollowUp && canEdit && (
-              <form onSubmit={handleAddFollowUp} className="bg-gray-50 rounded-xl p-4 mb-4 space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Follow-up Date & Time *
-                  </label>
-                  <input
-                    type="datetime-local"
-                    required
-                    value={followUpData.follow_up_date}
-                    onChange={(e) => setFollowUpData({ ...followUpData, follow_up_date: e.target.value })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
-                  />
-                </div>
+            {activeTab === 'follow_ups' ? (
+              <>
+                {showAddFollowUp && canEdit && (
+                  <form onSubmit={handleAddFollowUp} className="bg-gray-50 rounded-xl p-4 mb-4 space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Follow-up Date & Time *
+                      </label>
+                      <input
+                        type="datetime-local"
+                        required
+                        value={followUpData.follow_up_date}
+                        onChange={(e) => setFollowUpData({ ...followUpData, follow_up_date: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                      />
+                    </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Notes *
-                  </label>
-                  <textarea
-                    required
-                    value={followUpData.notes}
-                    onChange={(e) => setFollowUpData({ ...followUpData, notes: e.target.value })}
-                    rows={3}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition resize-none"
-                    placeholder="Enter follow-up notes..."
-                  />
-                </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          State
+                        </label>
+                        <select
+                          value={followUpData.state}
+                          onChange={(e) => setFollowUpData({ ...followUpData, state: e.target.value as FollowUpState })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                        >
+                          {Object.entries(FOLLOW_UP_STATES).map(([value, { label }]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Voice Recording
-                  </label>
-                  <input
-                    type="file"
-                    accept="audio/*"
-                    onChange={(e) => setFollowUpData({ ...followUpData, voice_file: e.target.files?.[0] || null })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
-                  />
-                  {uploadingVoice && <p className="text-sm text-primary-600 mt-2">Uploading voice recording...</p>}
-                </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Outcome
+                        </label>
+                        <select
+                          value={followUpData.outcome}
+                          onChange={(e) =>
+                            setFollowUpData({ ...followUpData, outcome: e.target.value as FollowUpOutcome | '' })
+                          }
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                        >
+                          <option value="">-- No outcome yet --</option>
+                          {Object.entries(FOLLOW_UP_OUTCOMES).map(([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
 
-                <div className="flex gap-2">
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setShowAddFollowUp(false);
-                      setFollowUpData({ notes: '', follow_up_date: '', voice_file: null });
-                    }}
-                    className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    disabled={loading}
-                    className="flex-1 py-2 px-4 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
-                  >
-                    {loading ? 'Adding...' : 'Add Follow-up'}
-                  </button>
-                </div>
-              </form>
-            )}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Notes *
+                      </label>
+                      <textarea
+                        required
+                        value={followUpData.notes}
+                        onChange={(e) => setFollowUpData({ ...followUpData, notes: e.target.value })}
+                        rows={3}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition resize-none"
+                        placeholder="Enter follow-up notes..."
+                      />
+                    </div>
 
-            <div className="space-y-4">
-              {followUps.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  <MessageSquare className="w-12 h-12 mx-auto mb-2 text-gray-300" />
-                  <p>No follow-ups yet</p>
-                </div>
-              ) : (
-                followUps.map((followUp) => (
-                  <div key={followUp.id} className="bg-gray-50 rounded-lg p-4">
-                    <div className="flex justify-between items-start mb-2">
-                      <div className="flex items-center gap-2 text-sm text-gray-600">
-                        <Calendar className="w-4 h-4" />
-                        <span>{format(new Date(followUp.follow_up_date), 'PPp')}</span>
-                      </div>
-                      {followUp.creator && (
-                        <span className="text-sm text-gray-600">by {followUp.creator.full_name}</span>
-                      )}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Voice Recording
+                      </label>
+                      <VoiceRecorder
+                        value={followUpData.voice_file}
+                        onChange={(file) => setFollowUpData((data) => ({ ...data, voice_file: file }))}
+                        onRecordingChange={setRecordingVoice}
+                      />
+                      {recordingVoice && <p className="text-sm text-gray-600 mt-2">Stop the recording to attach it.</p>}
+                      {uploadingVoice && <p className="text-sm text-primary-600 mt-2">Uploading voice recording...</p>}
                     </div>
-                    <p className="text-gray-900 mb-2">{followUp.notes}</p>
-                    {followUp.voice_recording_url && (
-                      <div className="flex items-center gap-2 mt-2">
-                        <Mic className="w-4 h-4 text-primary-600" />
-                        <audio controls className="flex-1">
-                          <source src={followUp.voice_recording_url} />
-                        </audio>
-                      </div>
-                    )}
-                  </div>
-                ))
-              )}
-            </div>
+
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setShowAddFollowUp(false);
+                          setFollowUpData(EMPTY_FOLLOW_UP);
+                        }}
+                        className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={loading || recordingVoice}
+                        className="flex-1 py-2 px-4 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+                      >
+                        {loading ? 'Adding...' : 'Add Follow-up'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                <div className="space-y-4">
+                  {followUps.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <MessageSquare className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+                      <p>No follow-ups yet</p>
+                    </div>
+                  ) : (
+                    followUps.map((followUp) => (
+                      <FollowUpCard
+                        key={followUp.id}
+                        followUp={followUp}
+                        canManage={followUp.created_by === profile?.id || profile?.role === 'admin'}
+                        onChange={handleFollowUpsChanged}
+                      />
+                    ))
+                  )}
+                </div>
+              </>
+            ) : (
+              <InquiryHistoryTimeline inquiryId={inquiry.id} refreshKey={historyRefreshKey} />
+            )}
           </div>
         </div>
 
@@ -383,6 +694,18 @@ export function InquiryDetailsModal({ inquiry, onClose, onUpdate }: InquiryDetai
           </div>
         )}
       </motion.div>
+
+      {conflict && (
+        <InquiryConflictModal
+          mine={conflict.mine}
+          current={conflict.current}
+          onResolve={handleResolveConflict}
+          onCancel={() => {
+            setConflict(null);
+            setRemoteChange('updated');
+          }}
+        />
+      )}
     </div>
   );
 }
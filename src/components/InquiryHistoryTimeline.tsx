@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { History, CirclePlus, Pencil, GitMerge, CalendarPlus, CalendarCog, CalendarX } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { format } from 'date-fns';
+import { usePipeline } from '../contexts/PipelineContext';
+import { FOLLOW_UP_STATES, FOLLOW_UP_OUTCOMES, FollowUpState, FollowUpOutcome } from '../lib/followUps';
+
+type HistoryEntry = Database['public']['Tables']['inquiry_history']['Row'] & {
+  changer?: { full_name: string } | null;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  student_name: 'Student name',
+  contact_number: 'Contact number',
+  email: 'Email',
+  course_interested: 'Course',
+  more_input: 'Additional notes',
+  status: 'Stage',
+  assigned_to: 'Assigned counselor',
+  loss_reason_id: 'Loss reason',
+  loss_note: 'Loss note',
+  tags: 'Tags',
+  created_by: 'Created by',
+};
+
+const FOLLOW_UP_FIELD_LABELS: Record<string, string> = {
+  notes: 'Follow-up notes',
+  follow_up_date: 'Follow-up date',
+  state: 'Follow-up state',
+  outcome: 'Follow-up outcome',
+};
+
+function formatFollowUpValue(field: string | null, value: string) {
+  if (field === 'follow_up_date') return format(new Date(value), 'PPp');
+  if (field === 'state') return FOLLOW_UP_STATES[value as FollowUpState]?.label ?? value;
+  if (field === 'outcome') return FOLLOW_UP_OUTCOMES[value as FollowUpOutcome] ?? value;
+  return value;
+}
+
+interface InquiryHistoryTimelineProps {
+  inquiryId: string;
+  refreshKey?: number;
+}
+
+export function InquiryHistoryTimeline({ inquiryId, refreshKey }: InquiryHistoryTimelineProps) {
+  const { getStage } = usePipeline();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [inquiryId, refreshKey]);
+
+  async function loadHistory() {
+    try {
+      const { data, error } = await supabase
+        .from('inquiry_history')
+        .select(`
+          *,
+          changer:profiles!inquiry_history_changed_by_fkey(full_name)
+        `)
+        .eq('inquiry_id', inquiryId)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error loading inquiry history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function describe(entry: HistoryEntry) {
+    if (entry.action === 'created') {
+      const stageLabel = getStage(entry.new_value ?? '')?.label ?? entry.new_value;
+      return <>Inquiry created in stage <strong>{stageLabel}</strong></>;
+    }
+
+    if (entry.action === 'merged') {
+      return <>Duplicate inquiry for <strong>{entry.old_value}</strong> merged into this record</>;
+    }
+
+    if (entry.action === 'follow_up_added') {
+      return <>Follow-up scheduled for <strong>{formatFollowUpValue('follow_up_date', entry.new_value ?? '')}</strong></>;
+    }
+
+    if (entry.action === 'follow_up_deleted') {
+      return <>Follow-up for <strong>{formatFollowUpValue('follow_up_date', entry.old_value ?? '')}</strong> deleted</>;
+    }
+
+    const isFollowUp = entry.action === 'follow_up_updated';
+    const label = (isFollowUp ? FOLLOW_UP_FIELD_LABELS : FIELD_LABELS)[entry.field ?? ''] ?? entry.field;
+    const oldValue = entry.old_value !== null && isFollowUp ? formatFollowUpValue(entry.field, entry.old_value) : entry.old_value;
+    const newValue = entry.new_value !== null && isFollowUp ? formatFollowUpValue(entry.field, entry.new_value) : entry.new_value;
+
+    if (oldValue === null) {
+      return <>{label} set to <strong>{newValue}</strong></>;
+    }
+    if (newValue === null) {
+      return <>{label} cleared (was <strong>{oldValue}</strong>)</>;
+    }
+    return (
+      <>
+        {label} changed from <strong>{oldValue}</strong> to <strong>{newValue}</strong>
+      </>
+    );
+  }
+
+  function actorName(entry: HistoryEntry) {
+    if (!entry.changed_by) return 'System';
+    return entry.changer?.full_name ?? 'A team member';
+  }
+
+  const icons = {
+    created: CirclePlus,
+    updated: Pencil,
+    merged: GitMerge,
+    follow_up_added: CalendarPlus,
+    follow_up_updated: CalendarCog,
+    follow_up_deleted: CalendarX,
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <History className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+        <p>No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-3 space-y-6">
+      {entries.map((entry) => {
+        const Icon = icons[entry.action];
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-[13px] flex items-center justify-center w-6 h-6 bg-primary-100 rounded-full ring-4 ring-white">
+              <Icon className="w-3 h-3 text-primary-700" />
+            </span>
+            <p className="text-gray-900 break-words">{describe(entry)}</p>
+            <p className="text-sm text-gray-500 mt-1">
+              {actorName(entry)} · {format(new Date(entry.changed_at), 'PPp')}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
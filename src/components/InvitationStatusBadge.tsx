@@ -0,0 +1,36 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { getInvitationStatus, UserInvitation } from '../lib/userAdmin';
+
+interface InvitationStatusBadgeProps {
+  invitation: UserInvitation;
+}
+
+export function InvitationStatusBadge({ invitation }: InvitationStatusBadgeProps) {
+  if (invitation.accepted_at) {
+    return (
+      <span className="block text-xs text-gray-500 mt-1">
+        Joined {format(new Date(invitation.accepted_at), 'MMM d, yyyy')}
+      </span>
+    );
+  }
+
+  if (getInvitationStatus(invitation) === 'expired') {
+    return (
+      <span
+        className="px-3 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-700"
+        title={`Sent ${format(new Date(invitation.sent_at), 'MMM d, yyyy h:mm a')}`}
+      >
+        Invite expired
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700"
+      title={`Sent ${format(new Date(invitation.sent_at), 'MMM d, yyyy h:mm a')}`}
+    >
+      Invite pending · expires {formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}
+    </span>
+  );
+}
@@ -10,8 +10,14 @@ import {
   Menu,
   X,
   FileText,
+  CopyCheck,
+  Settings,
+  CalendarCheck,
+  CalendarDays,
+  UserCircle,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { NotificationBell } from './NotificationBell';
 
 interface LayoutProps {
   children: ReactNode;
@@ -26,9 +32,14 @@ export function Layout({ children }: LayoutProps) {
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, roles: ['admin', 'co_leader', 'employee'] },
     { name: 'Student Inquiries', href: '/inquiries', icon: FileText, roles: ['admin', 'co_leader', 'employee'] },
+    { name: 'My Day', href: '/agenda', icon: CalendarCheck, roles: ['admin', 'co_leader', 'employee'] },
+    { name: 'Calendar', href: '/calendar', icon: CalendarDays, roles: ['admin', 'co_leader', 'employee'] },
     { name: 'Employees', href: '/employees', icon: Users, roles: ['admin'] },
     { name: 'Co-Leaders', href: '/co-leaders', icon: UserCog, roles: ['admin'] },
+    { name: 'Duplicates', href: '/duplicates', icon: CopyCheck, roles: ['admin'] },
     { name: 'Analytics', href: '/analytics', icon: BarChart3, roles: ['admin', 'co_leader'] },
+    { name: 'Settings', href: '/settings', icon: Settings, roles: ['admin'] },
+    { name: 'My Profile', href: '/profile', icon: UserCircle, roles: ['admin', 'co_leader', 'employee'] },
   ];
 
   const filteredNavigation = navigation.filter((item) =>
@@ -66,10 +77,15 @@ export function Layout({ children }: LayoutProps) {
             </div>
 
             <div className="flex items-center gap-4">
-              <div className="text-right hidden sm:block">
+              <NotificationBell />
+              <Link
+                to="/profile"
+                className="text-right hidden sm:block px-2 py-1 rounded-lg hover:bg-gray-100 transition"
+                title="My Profile"
+              >
                 <p className="text-sm font-medium text-gray-900">{profile?.full_name}</p>
                 <p className="text-xs text-gray-500 capitalize">{profile?.role.replace('_', ' ')}</p>
-              </div>
+              </Link>
               <button
                 onClick={handleSignOut}
                 className="p-2 rounded-lg hover:bg-red-50 text-red-600 transition"
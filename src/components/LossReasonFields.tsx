@@ -0,0 +1,49 @@
+import { usePipeline } from '../contexts/PipelineContext';
+
+interface LossReasonFieldsProps {
+  reasonId: string;
+  note: string;
+  onChange: (changes: { reasonId?: string; note?: string }) => void;
+}
+
+export function LossReasonFields({ reasonId, note, onChange }: LossReasonFieldsProps) {
+  const { lossReasons } = usePipeline();
+  // Keep a retired reason selectable on inquiries that already carry it.
+  const options = lossReasons.filter((reason) => reason.is_active || reason.id === reasonId);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Loss Reason *
+        </label>
+        <select
+          required
+          value={reasonId}
+          onChange={(e) => onChange({ reasonId: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+        >
+          <option value="">-- Select a reason --</option>
+          {options.map((reason) => (
+            <option key={reason.id} value={reason.id}>
+              {reason.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Loss Note
+        </label>
+        <textarea
+          value={note}
+          onChange={(e) => onChange({ note: e.target.value })}
+          rows={2}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition resize-none"
+          placeholder="Anything else worth knowing about why this lead was lost..."
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState, FormEvent } from 'react';
+import { motion } from 'framer-motion';
+import { X, XCircle } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { usePipeline } from '../contexts/PipelineContext';
+import { LossReasonFields } from './LossReasonFields';
+
+type Inquiry = Database['public']['Tables']['inquiries']['Row'];
+
+interface LossReasonModalProps {
+  inquiry: Inquiry;
+  status: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function LossReasonModal({ inquiry, status, onClose, onSuccess }: LossReasonModalProps) {
+  const { getStage } = usePipeline();
+  const [reasonId, setReasonId] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!reasonId) return;
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('inquiries')
+        .update({ status, loss_reason_id: reasonId, loss_note: note.trim() || null })
+        .eq('id', inquiry.id);
+
+      if (error) throw error;
+      onSuccess();
+    } catch (error) {
+      console.error('Error updating inquiry status:', error);
+      alert('Failed to update inquiry status. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-lg w-full"
+      >
+        <div className="border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-heading font-bold text-gray-900">Why was this lead lost?</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Moving <span className="font-semibold">{inquiry.student_name}</span> to{' '}
+            <span className="font-semibold">{getStage(status)?.label ?? status}</span> needs a reason.
+          </p>
+
+          <LossReasonFields
+            reasonId={reasonId}
+            note={note}
+            onChange={(changes) => {
+              if (changes.reasonId !== undefined) setReasonId(changes.reasonId);
+              if (changes.note !== undefined) setNote(changes.note);
+            }}
+          />
+
+          <div className="flex gap-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !reasonId}
+              className="flex-1 py-3 px-4 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <XCircle className="w-5 h-5" />
+              {loading ? 'Saving...' : 'Mark as Lost'}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
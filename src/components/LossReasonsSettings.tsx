@@ -0,0 +1,160 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Trash2, Plus, Save } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePipeline, LossReason } from '../contexts/PipelineContext';
+
+export function LossReasonsSettings() {
+  const { lossReasons, reloadLossReasons } = usePipeline();
+  const [draft, setDraft] = useState<LossReason[]>(lossReasons);
+  const [newLabel, setNewLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft(lossReasons);
+  }, [lossReasons]);
+
+  function updateDraft(id: string, changes: Partial<LossReason>) {
+    setDraft(draft.map((reason) => (reason.id === id ? { ...reason, ...changes } : reason)));
+  }
+
+  async function handleSave() {
+    setError('');
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from('loss_reasons').upsert(
+        draft.map((reason) => ({
+          id: reason.id,
+          label: reason.label.trim() || 'Untitled reason',
+          position: reason.position,
+          is_active: reason.is_active,
+        }))
+      );
+
+      if (error) throw error;
+      await reloadLossReasons();
+    } catch (error) {
+      console.error('Error saving loss reasons:', error);
+      setError('Failed to save loss reasons. Reason names must be unique.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(reason: LossReason) {
+    if (!window.confirm(`Delete the "${reason.label}" loss reason?`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      const { error } = await supabase.from('loss_reasons').delete().eq('id', reason.id);
+
+      if (error) {
+        if (error.code === '23503') {
+          setError(`"${reason.label}" is recorded on existing inquiries. Turn it off instead so reports keep it.`);
+          return;
+        }
+        throw error;
+      }
+      await reloadLossReasons();
+    } catch (error) {
+      console.error('Error deleting loss reason:', error);
+      setError('Failed to delete loss reason. Please try again.');
+    }
+  }
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const { error } = await supabase.from('loss_reasons').insert({
+        label: newLabel.trim(),
+        position: Math.max(0, ...lossReasons.map((reason) => reason.position)) + 10,
+        is_active: true,
+      });
+
+      if (error) throw error;
+      setNewLabel('');
+      await reloadLossReasons();
+    } catch (error) {
+      console.error('Error adding loss reason:', error);
+      setError('Failed to add loss reason. Reason names must be unique.');
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Loss Reasons</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Counselors pick one of these whenever they move an inquiry to a lost stage. Turned-off
+          reasons are no longer offered but stay on past inquiries and in analytics.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {draft.map((reason) => (
+          <div key={reason.id} className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg">
+            <input
+              type="text"
+              value={reason.label}
+              onChange={(e) => updateDraft(reason.id, { label: e.target.value })}
+              className="flex-1 min-w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={reason.is_active}
+                onChange={(e) => updateDraft(reason.id, { is_active: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Offered
+            </label>
+            <button
+              onClick={() => handleDelete(reason)}
+              className="p-2 rounded-lg text-red-600 hover:bg-red-50 transition"
+              title="Delete reason"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+      >
+        <Save className="w-4 h-4" />
+        {saving ? 'Saving...' : 'Save Reasons'}
+      </button>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-200">
+        <input
+          type="text"
+          required
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="New loss reason"
+          className="flex-1 min-w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+        />
+        <button
+          type="submit"
+          className="flex items-center gap-2 px-4 py-2 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Add Reason
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState, FormEvent } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import { generateRecoveryCodes, startTotpEnrollment, TotpEnrollment, verifyTotpCode } from '../lib/mfa';
+
+interface MfaEnrollmentProps {
+  onComplete: () => void;
+  onCancel?: () => void;
+  cancelLabel?: string;
+}
+
+/**
+ * Walks the user through scanning a QR code, confirming a code from their
+ * authenticator app and saving recovery codes.
+ */
+export function MfaEnrollment({ onComplete, onCancel, cancelLabel = 'Cancel' }: MfaEnrollmentProps) {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Each start replaces the previous unfinished enrollment, so a second
+    // run of this effect (as in StrictMode) would invalidate the QR code.
+    if (started.current) return;
+    started.current = true;
+    beginEnrollment();
+  }, []);
+
+  async function beginEnrollment() {
+    try {
+      setEnrollment(await startTotpEnrollment());
+    } catch (error) {
+      console.error('Error starting authenticator enrollment:', error);
+      setError('Failed to start setting up your authenticator app. Please try again.');
+    }
+  }
+
+  async function handleVerify(e: FormEvent) {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setVerifying(true);
+    setError('');
+
+    try {
+      await verifyTotpCode(enrollment.factorId, code);
+    } catch (error) {
+      console.error('Error verifying authenticator code:', error);
+      setError('That code did not match. Check the time on your phone and enter the latest code.');
+      setVerifying(false);
+      return;
+    }
+
+    try {
+      setRecoveryCodes(await generateRecoveryCodes());
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      setError('Recovery codes could not be created. Generate them from your profile page.');
+      setRecoveryCodes([]);
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-green-700">
+          <ShieldCheck className="w-5 h-5" />
+          <span className="font-medium">Two-factor authentication is on</span>
+        </div>
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+        {recoveryCodes.length > 0 && <RecoveryCodesList codes={recoveryCodes} />}
+        <button
+          type="button"
+          onClick={onComplete}
+          className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
+        >
+          {recoveryCodes.length > 0 ? "I've saved my recovery codes" : 'Continue'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {!enrollment ? (
+        !error && (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        )
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+          </p>
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-44 h-44 mx-auto" />
+          <p className="text-xs text-gray-500 text-center">
+            Can't scan it? Enter this key instead:
+            <span className="block mt-1 font-mono text-sm text-gray-900 break-all">{enrollment.secret}</span>
+          </p>
+
+          <div>
+            <label htmlFor="totp-code" className="block text-sm font-medium text-gray-700 mb-2">
+              6-digit code from the app
+            </label>
+            <input
+              id="totp-code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+              placeholder="123456"
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-4 pt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+          >
+            {cancelLabel}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!enrollment || verifying}
+          className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {verifying ? 'Verifying...' : 'Verify & Turn On'}
+        </button>
+      </div>
+    </form>
+  );
+}
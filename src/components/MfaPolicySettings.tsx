@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { saveAppSetting } from '../lib/appSettings';
+import { DEFAULT_MFA_POLICY, fetchMfaPolicy, MFA_POLICY_SETTING, MfaPolicy } from '../lib/mfa';
+import { UserRole } from '../lib/userAdmin';
+
+const ROLES: { role: UserRole; label: string }[] = [
+  { role: 'admin', label: 'Admins' },
+  { role: 'co_leader', label: 'Co-Leaders' },
+  { role: 'employee', label: 'Employees' },
+];
+
+export function MfaPolicySettings() {
+  const { profile, refreshProfile } = useAuth();
+  const [policy, setPolicy] = useState<MfaPolicy>(DEFAULT_MFA_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  async function loadPolicy() {
+    try {
+      setPolicy(await fetchMfaPolicy());
+    } catch (error) {
+      console.error('Error loading two-factor policy:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleRole(role: UserRole) {
+    setPolicy((current) => ({
+      roles: current.roles.includes(role) ? current.roles.filter((r) => r !== role) : [...current.roles, role],
+    }));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError('');
+
+    try {
+      await saveAppSetting(MFA_POLICY_SETTING, policy, profile?.id);
+      // The policy may now cover the admin saving it.
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error saving two-factor policy:', error);
+      setError('Failed to save the two-factor policy. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 flex justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Two-Factor Authentication</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Require an authenticator app for these roles. Anyone without one is asked to set it up the next time they
+          sign in. Admin pages always require it.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {ROLES.map(({ role, label }) => (
+          <label key={role} className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={policy.roles.includes(role)}
+              onChange={() => toggleRole(role)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+      >
+        <Save className="w-4 h-4" />
+        {saving ? 'Saving...' : 'Save Two-Factor Policy'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Check, X } from 'lucide-react';
+import { PASSWORD_RULES } from '../lib/password';
+
+interface NewPasswordFieldsProps {
+  password: string;
+  confirmPassword: string;
+  onPasswordChange: (password: string) => void;
+  onConfirmPasswordChange: (confirmPassword: string) => void;
+  label?: string;
+}
+
+export function NewPasswordFields({
+  password,
+  confirmPassword,
+  onPasswordChange,
+  onConfirmPasswordChange,
+  label = 'Password',
+}: NewPasswordFieldsProps) {
+  return (
+    <>
+      <div>
+        <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-2">
+          {label}
+        </label>
+        <input
+          id="new-password"
+          type="password"
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          required
+          autoComplete="new-password"
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+          placeholder="Create a password"
+        />
+        <ul className="mt-2 space-y-1">
+          {PASSWORD_RULES.map((rule) => {
+            const met = rule.test(password);
+            return (
+              <li
+                key={rule.label}
+                className={`flex items-center gap-2 text-xs ${met ? 'text-green-700' : 'text-gray-500'}`}
+              >
+                {met ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+                {rule.label}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div>
+        <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-2">
+          Confirm {label}
+        </label>
+        <input
+          id="confirm-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => onConfirmPasswordChange(e.target.value)}
+          required
+          autoComplete="new-password"
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+          placeholder="Enter the password again"
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, UserPlus, UserMinus, ArrowRightLeft, AlarmClock, CheckCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  AppNotification,
+  browserNotificationsEnabled,
+  browserNotificationsSupported,
+  fetchRecentNotifications,
+  fetchUnreadNotificationCount,
+  getNotificationLink,
+  markNotificationsRead,
+  setBrowserNotificationsEnabled,
+  subscribeToNotifications,
+} from '../lib/notifications';
+
+const NOTIFICATION_ICONS = {
+  inquiry_assigned: { icon: UserPlus, className: 'bg-primary-100 text-primary-700' },
+  inquiry_unassigned: { icon: UserMinus, className: 'bg-gray-100 text-gray-600' },
+  inquiry_status_changed: { icon: ArrowRightLeft, className: 'bg-purple-100 text-purple-700' },
+  follow_up_due: { icon: AlarmClock, className: 'bg-orange-100 text-orange-700' },
+} as const;
+
+export function NotificationBell() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [browserAlerts, setBrowserAlerts] = useState(browserNotificationsEnabled);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    loadNotifications();
+
+    return subscribeToNotifications(profile.id, (notification) => {
+      setNotifications((current) => [notification, ...current.filter((n) => n.id !== notification.id)]);
+      setUnreadCount((count) => count + 1);
+
+      if (browserNotificationsEnabled()) {
+        const alert = new Notification(notification.title, { body: notification.body ?? undefined, tag: notification.id });
+        alert.onclick = () => {
+          window.focus();
+          openNotification(notification);
+        };
+      }
+    });
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    function handleClickOutside(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  async function loadNotifications() {
+    try {
+      const [recent, unread] = await Promise.all([fetchRecentNotifications(), fetchUnreadNotificationCount()]);
+      setNotifications(recent);
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }
+
+  async function markRead(ids?: string[]) {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((n) => (!n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: readAt } : n))
+    );
+    setUnreadCount((count) => (ids ? Math.max(0, count - ids.length) : 0));
+
+    try {
+      await markNotificationsRead(ids);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      loadNotifications();
+    }
+  }
+
+  function openNotification(notification: AppNotification) {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+
+    const link = getNotificationLink(notification);
+    if (link) {
+      setOpen(false);
+      navigate(link);
+    }
+  }
+
+  async function toggleBrowserAlerts() {
+    setBrowserAlerts(await setBrowserNotificationsEnabled(!browserAlerts));
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg hover:bg-gray-100 text-gray-600 transition"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-semibold">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-2xl border border-gray-100 z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <h3 className="font-heading font-bold text-gray-900">Notifications</h3>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markRead()}
+                  className="flex items-center gap-1 text-sm text-primary-700 font-medium hover:text-primary-800 transition"
+                >
+                  <CheckCheck className="w-4 h-4" />
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.length === 0 ? (
+                <p className="px-4 py-8 text-center text-sm text-gray-500">You're all caught up.</p>
+              ) : (
+                notifications.map((notification) => {
+                  const { icon: Icon, className } = NOTIFICATION_ICONS[notification.type];
+
+                  return (
+                    <button
+                      key={notification.id}
+                      onClick={() => openNotification(notification)}
+                      className={`w-full flex items-start gap-3 px-4 py-3 text-left transition hover:bg-gray-50 ${
+                        notification.read_at ? '' : 'bg-primary-50/60'
+                      }`}
+                    >
+                      <span className={`p-2 rounded-full shrink-0 ${className}`}>
+                        <Icon className="w-4 h-4" />
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <span className={`block text-sm text-gray-900 ${notification.read_at ? '' : 'font-semibold'}`}>
+                          {notification.title}
+                        </span>
+                        {notification.body && (
+                          <span className="block text-sm text-gray-600 truncate">{notification.body}</span>
+                        )}
+                        <span className="block text-xs text-gray-500 mt-1">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </span>
+                      </span>
+                      {!notification.read_at && <span className="w-2 h-2 mt-2 rounded-full bg-primary-600 shrink-0" />}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+
+            {browserNotificationsSupported() && (
+              <label className="flex items-center gap-2 px-4 py-3 border-t border-gray-200 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={browserAlerts}
+                  onChange={toggleBrowserAlerts}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Show desktop notifications in this browser
+              </label>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
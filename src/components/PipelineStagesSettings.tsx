@@ -0,0 +1,241 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Save } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { usePipeline, PipelineStage, StageKind } from '../contexts/PipelineContext';
+
+const KIND_LABELS: Record<StageKind, string> = {
+  open: 'Open',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+function toStageKey(label: string) {
+  return label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+export function PipelineStagesSettings() {
+  const { stages, reloadStages } = usePipeline();
+  const [draft, setDraft] = useState<PipelineStage[]>(stages);
+  const [newStage, setNewStage] = useState({ label: '', color: '#6b7280', kind: 'open' as StageKind });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft(stages);
+  }, [stages]);
+
+  function updateDraft(key: string, changes: Partial<PipelineStage>) {
+    setDraft(draft.map((stage) => (stage.key === key ? { ...stage, ...changes } : stage)));
+  }
+
+  function moveStage(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+
+    const reordered = [...draft];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDraft(reordered);
+  }
+
+  async function handleSave() {
+    setError('');
+
+    if (!draft.some((stage) => stage.kind === 'open')) {
+      setError('Keep at least one open stage so new inquiries have somewhere to start.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from('pipeline_stages').upsert(
+        draft.map((stage, index) => ({
+          key: stage.key,
+          label: stage.label.trim() || stage.key,
+          color: stage.color,
+          kind: stage.kind,
+          position: (index + 1) * 10,
+        }))
+      );
+
+      if (error) throw error;
+      await reloadStages();
+    } catch (error) {
+      console.error('Error saving pipeline stages:', error);
+      setError('Failed to save stages. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(stage: PipelineStage) {
+    if (!window.confirm(`Delete the "${stage.label}" stage?`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      const { error } = await supabase.from('pipeline_stages').delete().eq('key', stage.key);
+
+      if (error) {
+        if (error.code === '23503') {
+          setError(`Move every inquiry out of "${stage.label}" before deleting it.`);
+          return;
+        }
+        throw error;
+      }
+      await reloadStages();
+    } catch (error) {
+      console.error('Error deleting pipeline stage:', error);
+      setError('Failed to delete stage. Please try again.');
+    }
+  }
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    let key = toStageKey(newStage.label);
+    if (!key) {
+      setError('Stage names need at least one letter or number.');
+      return;
+    }
+    for (let suffix = 2; stages.some((stage) => stage.key === key); suffix++) {
+      key = `${toStageKey(newStage.label)}_${suffix}`;
+    }
+
+    try {
+      const { error } = await supabase.from('pipeline_stages').insert({
+        key,
+        label: newStage.label.trim(),
+        color: newStage.color,
+        kind: newStage.kind,
+        position: (stages.length + 1) * 10,
+      });
+
+      if (error) throw error;
+      setNewStage({ label: '', color: '#6b7280', kind: 'open' });
+      await reloadStages();
+    } catch (error) {
+      console.error('Error adding pipeline stage:', error);
+      setError('Failed to add stage. Please try again.');
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Pipeline Stages</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Stages appear in this order on the board and in status menus. Won and lost stages drive
+          the conversion and drop figures on the dashboard and in analytics.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {draft.map((stage, index) => (
+          <div key={stage.key} className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg">
+            <div className="flex flex-col">
+              <button
+                onClick={() => moveStage(index, -1)}
+                disabled={index === 0}
+                className="p-1 rounded hover:bg-gray-200 transition disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveStage(index, 1)}
+                disabled={index === draft.length - 1}
+                className="p-1 rounded hover:bg-gray-200 transition disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+            <input
+              type="color"
+              value={stage.color}
+              onChange={(e) => updateDraft(stage.key, { color: e.target.value })}
+              className="w-10 h-10 rounded cursor-pointer border border-gray-300"
+            />
+            <input
+              type="text"
+              value={stage.label}
+              onChange={(e) => updateDraft(stage.key, { label: e.target.value })}
+              className="flex-1 min-w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            />
+            <select
+              value={stage.kind}
+              onChange={(e) => updateDraft(stage.key, { kind: e.target.value as StageKind })}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            >
+              {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <code className="text-xs text-gray-500">{stage.key}</code>
+            <button
+              onClick={() => handleDelete(stage)}
+              className="p-2 rounded-lg text-red-600 hover:bg-red-50 transition"
+              title="Delete stage"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+      >
+        <Save className="w-4 h-4" />
+        {saving ? 'Saving...' : 'Save Stages'}
+      </button>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-200">
+        <input
+          type="color"
+          value={newStage.color}
+          onChange={(e) => setNewStage({ ...newStage, color: e.target.value })}
+          className="w-10 h-10 rounded cursor-pointer border border-gray-300"
+        />
+        <input
+          type="text"
+          required
+          value={newStage.label}
+          onChange={(e) => setNewStage({ ...newStage, label: e.target.value })}
+          placeholder="New stage name"
+          className="flex-1 min-w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+        />
+        <select
+          value={newStage.kind}
+          onChange={(e) => setNewStage({ ...newStage, kind: e.target.value as StageKind })}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+        >
+          {Object.entries(KIND_LABELS).map(([kind, label]) => (
+            <option key={kind} value={kind}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="flex items-center gap-2 px-4 py-2 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Add Stage
+        </button>
+      </form>
+    </div>
+  );
+}
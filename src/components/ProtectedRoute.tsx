@@ -1,13 +1,16 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: ('admin' | 'co_leader' | 'employee')[];
+  // Only let users through who entered an authenticator code this session.
+  requireAal2?: boolean;
 }
 
-export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
-  const { user, profile, loading } = useAuth();
+export function ProtectedRoute({ children, allowedRoles, requireAal2 }: ProtectedRouteProps) {
+  const { user, profile, loading, aal, mfaEnrolled, mfaRequired } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -18,12 +21,29 @@ export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps)
   }
 
   if (!user || !profile) {
-    return <Navigate to="/login" replace />;
+    // Remember where the user was headed so deep links survive signing in.
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  // AuthContext signs out inactive users, except invitees who have not set
+  // their password yet.
+  if (!profile.is_active) {
+    return <Navigate to="/accept-invite" replace />;
+  }
+
+  // Users with an authenticator always finish signing in with a code.
+  if (mfaEnrolled && aal !== 'aal2') {
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
   if (allowedRoles && !allowedRoles.includes(profile.role)) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  // Everyone else who needs a code has no authenticator yet.
+  if ((mfaRequired || requireAal2) && aal !== 'aal2') {
+    return <Navigate to="/mfa-setup" replace state={{ from: location }} />;
+  }
+
   return <>{children}</>;
 }
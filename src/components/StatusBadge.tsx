@@ -0,0 +1,21 @@
+import { usePipeline } from '../contexts/PipelineContext';
+
+interface StatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+export function StatusBadge({ status, className = '' }: StatusBadgeProps) {
+  const { getStage } = usePipeline();
+  const stage = getStage(status);
+  const color = stage?.color ?? '#6b7280';
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap ${className}`}
+      style={{ backgroundColor: `${color}1a`, color, borderColor: `${color}66` }}
+    >
+      {stage?.label ?? status}
+    </span>
+  );
+}
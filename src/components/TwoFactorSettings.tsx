@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { MfaEnrollment } from './MfaEnrollment';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import {
+  fetchRecoveryCodesRemaining,
+  fetchVerifiedTotpFactor,
+  generateRecoveryCodes,
+  removeTotpFactor,
+} from '../lib/mfa';
+
+export function TwoFactorSettings() {
+  const { mfaEnrolled, mfaRequired, refreshProfile } = useAuth();
+  const [codesRemaining, setCodesRemaining] = useState<number | null>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (mfaEnrolled) {
+      loadCodesRemaining();
+    }
+  }, [mfaEnrolled]);
+
+  async function loadCodesRemaining() {
+    try {
+      setCodesRemaining(await fetchRecoveryCodesRemaining());
+    } catch (error) {
+      console.error('Error loading recovery codes:', error);
+    }
+  }
+
+  async function handleEnrolled() {
+    setEnrolling(false);
+    await refreshProfile();
+  }
+
+  async function handleGenerateCodes() {
+    if (!confirm('Generate new recovery codes? Your current codes will stop working.')) return;
+
+    setWorking(true);
+    setError('');
+
+    try {
+      const codes = await generateRecoveryCodes();
+      setNewCodes(codes);
+      setCodesRemaining(codes.length);
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      setError('Failed to generate recovery codes. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function handleTurnOff() {
+    if (!confirm('Turn off two-factor authentication? You will only need your password to sign in.')) return;
+
+    setWorking(true);
+    setError('');
+
+    try {
+      const factor = await fetchVerifiedTotpFactor();
+      if (factor) {
+        await removeTotpFactor(factor.id);
+      }
+      setNewCodes(null);
+      setCodesRemaining(null);
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error turning off two-factor authentication:', error);
+      setError('Failed to turn off two-factor authentication. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-heading font-bold text-gray-900">Two-Factor Authentication</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Sign in with a code from an authenticator app on your phone as well as your password.
+          {mfaRequired && ' Your role requires it.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {enrolling ? (
+        <div className="max-w-md">
+          <MfaEnrollment onComplete={handleEnrolled} onCancel={() => setEnrolling(false)} />
+        </div>
+      ) : mfaEnrolled ? (
+        <>
+          <div className="flex items-center gap-2 text-green-700">
+            <ShieldCheck className="w-5 h-5" />
+            <span className="font-medium">On</span>
+            {codesRemaining !== null && (
+              <span className="text-sm text-gray-600">
+                · {codesRemaining} recovery {codesRemaining === 1 ? 'code' : 'codes'} left
+              </span>
+            )}
+          </div>
+
+          {newCodes && (
+            <div className="max-w-md">
+              <RecoveryCodesList codes={newCodes} />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleGenerateCodes}
+              disabled={working}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Generate New Recovery Codes
+            </button>
+            {!mfaRequired && (
+              <button
+                onClick={handleTurnOff}
+                disabled={working}
+                className="flex items-center gap-2 px-4 py-2 text-red-600 rounded-lg font-medium hover:bg-red-50 transition disabled:opacity-50"
+              >
+                <ShieldOff className="w-4 h-4" />
+                Turn Off
+              </button>
+            )}
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={() => setEnrolling(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition"
+        >
+          <ShieldCheck className="w-4 h-4" />
+          Set Up Authenticator App
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { RefreshCw } from 'lucide-react';
+
+/** Marks an inquiry that someone changed while the current page was open. */
+export function UpdatedBadge() {
+  return (
+    <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+      <RefreshCw className="w-3 h-3" />
+      Updated
+    </span>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Pause, Play, Square, Trash2 } from 'lucide-react';
+
+type RecorderState = 'idle' | 'recording' | 'paused' | 'recorded';
+
+interface VoiceRecorderProps {
+  value: File | null;
+  onChange: (file: File | null) => void;
+  onRecordingChange?: (recording: boolean) => void;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const isSupported = typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices;
+
+export function VoiceRecorder({ value, onChange, onRecordingChange }: VoiceRecorderProps) {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [duration, setDuration] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const frameRef = useRef(0);
+  const timerRef = useRef(0);
+  // Time recorded before the current segment; pausing banks the running segment here.
+  const elapsedRef = useRef(0);
+  const segmentStartRef = useRef(0);
+
+  useEffect(() => {
+    return () => {
+      releaseInput();
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  useEffect(() => {
+    onRecordingChange?.(state === 'recording' || state === 'paused');
+  }, [state]);
+
+  useEffect(() => {
+    // The parent clears the file after a successful upload.
+    if (value === null && state === 'recorded') {
+      reset();
+    }
+  }, [value]);
+
+  function releaseInput() {
+    cancelAnimationFrame(frameRef.current);
+    clearInterval(timerRef.current);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setLevel(0);
+  }
+
+  function startTimer() {
+    segmentStartRef.current = Date.now();
+    timerRef.current = window.setInterval(() => {
+      setDuration(elapsedRef.current + Date.now() - segmentStartRef.current);
+    }, 200);
+  }
+
+  function stopTimer() {
+    clearInterval(timerRef.current);
+    elapsedRef.current += Date.now() - segmentStartRef.current;
+    setDuration(elapsedRef.current);
+  }
+
+  function watchLevel(stream: MediaStream) {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        const centered = (sample - 128) / 128;
+        sum += centered * centered;
+      }
+      // RMS of speech rarely passes ~0.3, so scale it up to fill the meter.
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 3));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  }
+
+  async function handleStart() {
+    setError('');
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Kept before the recorder is built so releaseInput() turns the
+      // microphone off if that fails.
+      streamRef.current = stream;
+      const recorder = new MediaRecorder(stream);
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      elapsedRef.current = 0;
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        const type = recorder.mimeType.split(';')[0] || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type });
+        const file = new File([blob], `recording.${EXTENSIONS[type] ?? 'webm'}`, { type });
+        setPreviewUrl(URL.createObjectURL(blob));
+        setState('recorded');
+        onChange(file);
+      };
+
+      recorder.start();
+      watchLevel(stream);
+      startTimer();
+      setDuration(0);
+      setState('recording');
+    } catch (error) {
+      console.error('Error starting voice recording:', error);
+      setError('Could not access the microphone. Check your browser permissions and try again.');
+      releaseInput();
+    }
+  }
+
+  function handlePause() {
+    recorderRef.current?.pause();
+    stopTimer();
+    setState('paused');
+  }
+
+  function handleResume() {
+    recorderRef.current?.resume();
+    startTimer();
+    setState('recording');
+  }
+
+  function handleStop() {
+    if (state === 'recording') stopTimer();
+    releaseInput();
+    recorderRef.current?.stop();
+  }
+
+  function reset() {
+    setPreviewUrl(null);
+    setDuration(0);
+    setState('idle');
+  }
+
+  function handleDiscard() {
+    reset();
+    onChange(null);
+  }
+
+  if (!isSupported) {
+    return (
+      <input
+        type="file"
+        accept="audio/*"
+        onChange={(e) => onChange(e.target.files?.[0] || null)}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+      />
+    );
+  }
+
+  return (
+    <div className="border border-gray-300 rounded-lg p-4 bg-white space-y-3">
+      {state === 'recorded' && previewUrl ? (
+        <div className="flex items-center gap-3">
+          <Mic className="w-4 h-4 text-primary-600" />
+          <audio controls src={previewUrl} className="flex-1" />
+          <span className="text-sm text-gray-600 tabular-nums">{formatDuration(duration)}</span>
+          <button
+            type="button"
+            onClick={handleDiscard}
+            className="p-2 rounded-lg text-red-600 hover:bg-red-50 transition"
+            title="Discard recording"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3">
+          {state === 'idle' ? (
+            <button
+              type="button"
+              onClick={handleStart}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition"
+            >
+              <Mic className="w-4 h-4" />
+              Record
+            </button>
+          ) : (
+            <>
+              {state === 'recording' ? (
+                <button
+                  type="button"
+                  onClick={handlePause}
+                  className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                  title="Pause"
+                >
+                  <Pause className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleResume}
+                  className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                  title="Resume"
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleStop}
+                className="p-2 rounded-lg bg-gray-900 text-white hover:bg-gray-700 transition"
+                title="Stop"
+              >
+                <Square className="w-4 h-4" />
+              </button>
+            </>
+          )}
+
+          <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-500 transition-[width] duration-75"
+              style={{ width: `${Math.round(level * 100)}%` }}
+            />
+          </div>
+
+          <span className="text-sm text-gray-600 tabular-nums">
+            {state === 'recording' && <span className="inline-block w-2 h-2 mr-2 rounded-full bg-red-600 animate-pulse" />}
+            {state === 'paused' && 'Paused · '}
+            {formatDuration(duration)}
+          </span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
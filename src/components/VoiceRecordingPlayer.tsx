@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { Mic, Play } from 'lucide-react';
+import { getVoiceRecordingUrl } from '../lib/voiceRecordings';
+
+interface VoiceRecordingPlayerProps {
+  path: string;
+}
+
+export function VoiceRecordingPlayer({ path }: VoiceRecordingPlayerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Signed URLs are requested on demand so a list of follow-ups does not mint
+  // links nobody listens to, and so an expired link can simply be requested again.
+  async function handleLoad() {
+    setLoading(true);
+    setError('');
+
+    try {
+      setUrl(await getVoiceRecordingUrl(path));
+    } catch (error) {
+      console.error('Error loading voice recording:', error);
+      setError('This recording is unavailable.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2 mt-2">
+      <Mic className="w-4 h-4 text-primary-600" />
+      {url ? (
+        <audio controls autoPlay src={url} onError={() => setUrl(null)} className="flex-1" />
+      ) : (
+        <button
+          onClick={handleLoad}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1 text-sm text-primary-700 bg-primary-50 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          {loading ? 'Loading...' : 'Play recording'}
+        </button>
+      )}
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
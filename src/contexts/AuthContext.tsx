@@ -1,15 +1,35 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User } from '@supabase/supabase-js';
+import { AuthenticatorAssuranceLevels, User } from '@supabase/supabase-js';
 import { supabase, Database } from '../lib/supabase';
+import { subscribeToRowChanges } from '../lib/realtime';
+import { fetchAssuranceLevel, fetchMfaPolicy } from '../lib/mfa';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
+type ProfileWithInvitation = Profile & {
+  invitation: { accepted_at: string | null } | null;
+};
+
+const INACTIVE_ACCOUNT_MESSAGE = 'Your account is not active. Contact an admin if you think this is a mistake.';
+
+// Deactivation is pushed over Realtime; this poll catches anything missed
+// while the connection was down.
+const PROFILE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
   loading: boolean;
+  // Why the user was signed out by the app rather than by themselves, if so.
+  signedOutReason: string | null;
+  // 'aal2' once the user has entered an authenticator code this session.
+  aal: AuthenticatorAssuranceLevels | null;
+  mfaEnrolled: boolean;
+  // Whether an admin has made two-factor authentication mandatory for the user's role.
+  mfaRequired: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -18,6 +38,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [signedOutReason, setSignedOutReason] = useState<string | null>(null);
+  const [aal, setAal] = useState<AuthenticatorAssuranceLevels | null>(null);
+  const [mfaEnrolled, setMfaEnrolled] = useState(false);
+  const [mfaRequired, setMfaRequired] = useState(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -36,6 +60,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           await loadProfile(session.user.id);
         } else {
           setProfile(null);
+          setAal(null);
+          setMfaEnrolled(false);
+          setMfaRequired(false);
           setLoading(false);
         }
       })();
@@ -44,16 +71,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const userId = user.id;
+    const unsubscribe = subscribeToRowChanges(
+      'profiles',
+      (change) => {
+        if (change.new?.is_active === false) {
+          loadProfile(userId);
+        }
+      },
+      `id=eq.${userId}`
+    );
+    const interval = window.setInterval(() => loadProfile(userId), PROFILE_CHECK_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      window.clearInterval(interval);
+    };
+  }, [user?.id]);
+
   async function loadProfile(userId: string) {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, invitation:user_invitations!user_invitations_user_id_fkey(accepted_at)')
         .eq('id', userId)
         .maybeSingle();
 
       if (error) throw error;
-      setProfile(data);
+
+      // Invitees stay inactive until they pick a password, and need their
+      // session for that. Anyone else without an active profile is let go.
+      const row: ProfileWithInvitation | null = data;
+      const invitePending = !!row?.invitation && row.invitation.accepted_at === null;
+
+      if (!row || (!row.is_active && !invitePending)) {
+        setSignedOutReason(INACTIVE_ACCOUNT_MESSAGE);
+        await supabase.auth.signOut();
+        return;
+      }
+
+      // Set together with the profile so routes never see a profile without
+      // knowing whether it still owes an authenticator code.
+      const [level, policy] = await Promise.all([fetchAssuranceLevel(), fetchMfaPolicy()]);
+      setAal(level.current);
+      setMfaEnrolled(level.next === 'aal2');
+      const { invitation, ...nextProfile } = row;
+      setMfaRequired(policy.roles.includes(row.role));
+      setProfile(nextProfile);
     } catch (error) {
       console.error('Error loading profile:', error);
     } finally {
@@ -62,11 +129,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   async function signIn(email: string, password: string) {
-    const { error } = await supabase.auth.signInWithPassword({
+    setSignedOutReason(null);
+
+    const { data, error } = await supabase.auth.signInWithPassword({
       email,
       password,
     });
     if (error) throw error;
+
+    const { data: access } = await supabase
+      .from('profiles')
+      .select('is_active')
+      .eq('id', data.user.id)
+      .maybeSingle();
+
+    if (!access?.is_active) {
+      await supabase.auth.signOut();
+      throw new Error(INACTIVE_ACCOUNT_MESSAGE);
+    }
+  }
+
+  async function refreshProfile() {
+    if (user) await loadProfile(user.id);
   }
 
   async function signOut() {
@@ -75,7 +159,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signIn, signOut }}>
+    <AuthContext.Provider value={{
+        user,
+        profile,
+        loading,
+        signedOutReason,
+        aal,
+        mfaEnrolled,
+        mfaRequired,
+        signIn,
+        signOut,
+        refreshProfile,
+      }}>
       {children}
     </AuthContext.Provider>
   );
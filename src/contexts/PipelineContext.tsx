@@ -0,0 +1,105 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+export type PipelineStage = Database['public']['Tables']['pipeline_stages']['Row'];
+export type StageKind = PipelineStage['kind'];
+export type LossReason = Database['public']['Tables']['loss_reasons']['Row'];
+
+interface PipelineContextType {
+  stages: PipelineStage[];
+  loading: boolean;
+  getStage: (key: string) => PipelineStage | undefined;
+  stageKeysOfKind: (kind: StageKind) => string[];
+  reloadStages: () => Promise<void>;
+  lossReasons: LossReason[];
+  getLossReason: (id: string) => LossReason | undefined;
+  reloadLossReasons: () => Promise<void>;
+}
+
+const PipelineContext = createContext<PipelineContextType | undefined>(undefined);
+
+export function PipelineProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [lossReasons, setLossReasons] = useState<LossReason[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      reloadStages();
+      reloadLossReasons();
+    } else {
+      setStages([]);
+      setLossReasons([]);
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  async function reloadStages() {
+    try {
+      const { data, error } = await supabase
+        .from('pipeline_stages')
+        .select('*')
+        .order('position');
+
+      if (error) throw error;
+      setStages(data || []);
+    } catch (error) {
+      console.error('Error loading pipeline stages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function reloadLossReasons() {
+    try {
+      const { data, error } = await supabase
+        .from('loss_reasons')
+        .select('*')
+        .order('position');
+
+      if (error) throw error;
+      setLossReasons(data || []);
+    } catch (error) {
+      console.error('Error loading loss reasons:', error);
+    }
+  }
+
+  function getStage(key: string) {
+    return stages.find((stage) => stage.key === key);
+  }
+
+  function stageKeysOfKind(kind: StageKind) {
+    return stages.filter((stage) => stage.kind === kind).map((stage) => stage.key);
+  }
+
+  function getLossReason(id: string) {
+    return lossReasons.find((reason) => reason.id === id);
+  }
+
+  return (
+    <PipelineContext.Provider
+      value={{
+        stages,
+        loading,
+        getStage,
+        stageKeysOfKind,
+        reloadStages,
+        lossReasons,
+        getLossReason,
+        reloadLossReasons,
+      }}
+    >
+      {children}
+    </PipelineContext.Provider>
+  );
+}
+
+export function usePipeline() {
+  const context = useContext(PipelineContext);
+  if (context === undefined) {
+    throw new Error('usePipeline must be used within a PipelineProvider');
+  }
+  return context;
+}
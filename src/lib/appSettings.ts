@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+
+export type AssignmentStrategy = 'off' | 'round_robin' | 'least_open' | 'course';
+
+export type AutoAssignmentSettings = {
+  strategy: AssignmentStrategy;
+  // Used by the course strategy when no available counselor is mapped to a course.
+  fallback: 'none' | 'round_robin' | 'least_open';
+};
+
+export const ASSIGNMENT_STRATEGIES: Record<AssignmentStrategy, { label: string; description: string }> = {
+  off: {
+    label: 'Off',
+    description: 'New inquiries stay unassigned until someone assigns them.',
+  },
+  round_robin: {
+    label: 'Round-robin',
+    description: 'Counselors take turns; the one auto-assigned least recently gets the next inquiry.',
+  },
+  least_open: {
+    label: 'Least open inquiries',
+    description: 'The counselor with the fewest inquiries in an open stage gets the next inquiry.',
+  },
+  course: {
+    label: 'By course',
+    description: 'Inquiries go to a counselor mapped to their course, balancing by open inquiries.',
+  },
+};
+
+export const DEFAULT_AUTO_ASSIGNMENT: AutoAssignmentSettings = { strategy: 'off', fallback: 'none' };
+
+/**
+ * Reads a key from `app_settings`, filling in any missing fields from
+ * `defaults` so older rows keep working as settings grow.
+ */
+export async function fetchAppSetting<T extends object>(key: string, defaults: T): Promise<T> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...defaults, ...((data?.value as Partial<T> | undefined) ?? {}) };
+}
+
+export async function saveAppSetting<T extends object>(key: string, value: T, updatedBy?: string) {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key, value, updated_by: updatedBy ?? null });
+
+  if (error) throw error;
+}
@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+
+export type AssignmentCandidate = {
+  id: string;
+  full_name: string;
+  role: 'admin' | 'co_leader' | 'employee';
+  on_leave: boolean;
+  open_count: number;
+  overdue_count: number;
+  course_won: number;
+  course_closed: number;
+  last_active_at: string | null;
+};
+
+export type RankedCandidate = AssignmentCandidate & {
+  // Won share of closed inquiries for the courses being assigned, or null
+  // when the counselor has not closed any yet.
+  conversion_rate: number | null;
+  suggested: boolean;
+};
+
+/**
+ * Loads every active profile with its workload and its track record on
+ * `courses`. Counts come back from Postgres as bigint strings.
+ */
+export async function fetchAssignmentCandidates(courses: string[]): Promise<AssignmentCandidate[]> {
+  const { data, error } = await supabase.rpc('assignment_candidates', { inquiry_courses: courses });
+
+  if (error) throw error;
+  return ((data || []) as AssignmentCandidate[]).map((candidate) => ({
+    ...candidate,
+    open_count: Number(candidate.open_count),
+    overdue_count: Number(candidate.overdue_count),
+    course_won: Number(candidate.course_won),
+    course_closed: Number(candidate.course_closed),
+  }));
+}
+
+/**
+ * Orders candidates by suggested fit: fewer open inquiries and overdue
+ * follow-ups first, nudged up by a better conversion rate on the course.
+ * Each overdue follow-up weighs as much as two open inquiries, and a perfect
+ * conversion rate is worth five. Counselors without a closed inquiry on the
+ * course are scored at the team average. Admins and co-leaders follow the
+ * employees, anyone on leave goes last, and the top entry is marked as the
+ * suggestion when it is an available employee.
+ */
+export function rankAssignmentCandidates(candidates: AssignmentCandidate[]): RankedCandidate[] {
+  const withRate = candidates.map((candidate) => ({
+    ...candidate,
+    conversion_rate: candidate.course_closed > 0 ? candidate.course_won / candidate.course_closed : null,
+    suggested: false,
+  }));
+
+  const knownRates = withRate.flatMap((c) => (c.conversion_rate === null ? [] : [c.conversion_rate]));
+  const averageRate = knownRates.length > 0 ? knownRates.reduce((sum, rate) => sum + rate, 0) / knownRates.length : 0;
+
+  const score = (c: RankedCandidate) =>
+    (c.conversion_rate ?? averageRate) * 5 - c.open_count - c.overdue_count * 2;
+
+  const group = (c: RankedCandidate) => (c.on_leave ? 2 : c.role === 'employee' ? 0 : 1);
+
+  const ranked = withRate.sort(
+    (a, b) => group(a) - group(b) || score(b) - score(a) || a.full_name.localeCompare(b.full_name)
+  );
+
+  if (ranked.length > 0 && group(ranked[0]) === 0) {
+    ranked[0].suggested = true;
+  }
+
+  return ranked;
+}
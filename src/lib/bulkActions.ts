@@ -0,0 +1,126 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase, Database } from './supabase';
+import { buildInquiryQuery, InquiryFilters } from './inquiries';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type Inquiry = Database['public']['Tables']['inquiries']['Row'];
+
+export type BulkAction = 'assign' | 'status' | 'tag' | 'export' | 'delete';
+
+export type BulkTarget = Pick<Inquiry, 'id' | 'student_name' | 'course_interested' | 'assigned_to' | 'status'>;
+
+export type BulkFailure = { target: BulkTarget; message: string };
+
+export type BulkActionResult = { succeeded: number; failures: BulkFailure[] };
+
+type BulkResponse = { data: { id: string }[] | null; error: PostgrestError | null };
+
+const BULK_TARGET_SELECT = 'id, student_name, course_interested, assigned_to, status';
+
+const TARGET_PAGE_SIZE = 1000;
+
+// Keeps `id=in.(...)` filters well inside URL length limits.
+const BULK_CHUNK_SIZE = 100;
+
+const NOT_PERMITTED_MESSAGE = 'You are not allowed to change this inquiry, or it no longer exists.';
+
+/**
+ * Fetches every inquiry matching the list filters (not just the visible page)
+ * for "select all matching" bulk actions.
+ */
+export async function fetchMatchingBulkTargets(
+  filters: Omit<InquiryFilters, 'page'>,
+  profile: Profile | null
+): Promise<BulkTarget[]> {
+  const targets: BulkTarget[] = [];
+
+  for (let from = 0; ; from += TARGET_PAGE_SIZE) {
+    const { data, error } = await buildInquiryQuery(filters, profile, BULK_TARGET_SELECT)
+      .range(from, from + TARGET_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    targets.push(...(data || []));
+    if (!data || data.length < TARGET_PAGE_SIZE) break;
+  }
+
+  return targets;
+}
+
+/**
+ * Applies `run` to the targets in chunks and works out which rows it
+ * changed. Each request runs under the caller's RLS policies, so rows the
+ * caller may not touch are silently skipped by Postgres; they are reported as
+ * failures because their ids are missing from the returned rows. A statement
+ * error (a trigger rejecting one row, say) fails the whole chunk, so that
+ * chunk is retried row by row to pin the error on the right inquiries.
+ */
+async function runBulkAction(
+  targets: BulkTarget[],
+  run: (ids: string[]) => PromiseLike<BulkResponse>
+): Promise<BulkActionResult> {
+  const result: BulkActionResult = { succeeded: 0, failures: [] };
+
+  function record(chunk: BulkTarget[], data: { id: string }[] | null) {
+    const changed = new Set((data || []).map((row) => row.id));
+    chunk.forEach((target) => {
+      if (changed.has(target.id)) {
+        result.succeeded++;
+      } else {
+        result.failures.push({ target, message: NOT_PERMITTED_MESSAGE });
+      }
+    });
+  }
+
+  for (let from = 0; from < targets.length; from += BULK_CHUNK_SIZE) {
+    const chunk = targets.slice(from, from + BULK_CHUNK_SIZE);
+    const { data, error } = await run(chunk.map((target) => target.id));
+
+    if (!error) {
+      record(chunk, data);
+      continue;
+    }
+
+    for (const target of chunk) {
+      const single = await run([target.id]);
+      if (single.error) {
+        result.failures.push({ target, message: single.error.message });
+      } else {
+        record([target], single.data);
+      }
+    }
+  }
+
+  return result;
+}
+
+export function bulkAssignInquiries(targets: BulkTarget[], assignedTo: string) {
+  return runBulkAction(targets, (ids) =>
+    supabase.from('inquiries').update({ assigned_to: assignedTo }).in('id', ids).select('id')
+  );
+}
+
+export function bulkChangeInquiryStatus(
+  targets: BulkTarget[],
+  values: Pick<Inquiry, 'status' | 'loss_reason_id' | 'loss_note'>
+) {
+  return runBulkAction(targets, (ids) =>
+    supabase.from('inquiries').update(values).in('id', ids).select('id')
+  );
+}
+
+export function bulkTagInquiries(targets: BulkTarget[], addTags: string[], removeTags: string[]) {
+  return runBulkAction(targets, (ids) =>
+    supabase.rpc('tag_inquiries', { inquiry_ids: ids, add_tags: addTags, remove_tags: removeTags })
+  );
+}
+
+export function bulkDeleteInquiries(targets: BulkTarget[]) {
+  return runBulkAction(targets, (ids) =>
+    supabase.from('inquiries').delete().in('id', ids).select('id')
+  );
+}
+
+// Tags are stored lower-case; see `tag_inquiries()`.
+export function parseTags(value: string): string[] {
+  return [...new Set(value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
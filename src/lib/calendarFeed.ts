@@ -0,0 +1,52 @@
+import { supabase, Database } from './supabase';
+
+export type CalendarFeedToken = Database['public']['Tables']['calendar_feed_tokens']['Row'];
+
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ics-feed`;
+
+export function getCalendarFeedUrl(token: string, { download = false } = {}) {
+  const params = new URLSearchParams({ token });
+  if (download) params.set('download', '1');
+  return `${FEED_FUNCTION_URL}?${params}`;
+}
+
+/** Calendar apps subscribe to `webcal://` links instead of downloading them once. */
+export function getCalendarSubscribeUrl(token: string) {
+  return getCalendarFeedUrl(token).replace(/^https?:/, 'webcal:');
+}
+
+export async function fetchCalendarFeedToken() {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as CalendarFeedToken | null;
+}
+
+export async function revokeCalendarFeedToken(userId: string) {
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Issues a new feed token, revoking any previous one so old subscription
+ * links stop working.
+ */
+export async function createCalendarFeedToken(userId: string) {
+  await revokeCalendarFeedToken(userId);
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as CalendarFeedToken;
+}
@@ -0,0 +1,194 @@
+import { unparse } from 'papaparse';
+import writeXlsxFile from 'write-excel-file/browser';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { supabase, Database } from './supabase';
+import { buildInquiryQuery, InquiryFilters } from './inquiries';
+import { FOLLOW_UP_STATES, FOLLOW_UP_OUTCOMES } from './followUps';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type Inquiry = Database['public']['Tables']['inquiries']['Row'];
+type FollowUp = Database['public']['Tables']['follow_ups']['Row'] & {
+  creator?: { full_name: string } | null;
+};
+
+type ExportInquiry = Inquiry & {
+  assigned_user?: { full_name: string } | null;
+  follow_ups?: { notes: string; created_at: string }[];
+};
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const EXPORT_SELECT = `
+  *,
+  assigned_user:profiles!inquiries_assigned_to_fkey(full_name),
+  follow_ups(notes, created_at)
+`;
+
+const EXPORT_PAGE_SIZE = 1000;
+
+const EXPORT_ID_CHUNK_SIZE = 100;
+
+function formatDate(value: string | null, pattern = 'yyyy-MM-dd HH:mm') {
+  return value ? format(new Date(value), pattern) : '';
+}
+
+/**
+ * Fetches every inquiry matching the list filters (not just the visible page),
+ * along with each inquiry's latest follow-up note.
+ */
+export async function fetchInquiriesForExport(
+  filters: Omit<InquiryFilters, 'page'>,
+  profile: Profile | null
+): Promise<ExportInquiry[]> {
+  const inquiries: ExportInquiry[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await buildInquiryQuery(filters, profile, EXPORT_SELECT)
+      .order('created_at', { referencedTable: 'follow_ups', ascending: false })
+      .limit(1, { referencedTable: 'follow_ups' })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    inquiries.push(...(data || []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  return inquiries;
+}
+
+/**
+ * Fetches the given inquiries for export, in the order of `ids`. Used by the
+ * bulk export of selected inquiries.
+ */
+export async function fetchInquiriesByIdForExport(ids: string[]): Promise<ExportInquiry[]> {
+  const inquiries: ExportInquiry[] = [];
+
+  // Ids travel in the URL, so fetch them a page at a time.
+  for (let from = 0; from < ids.length; from += EXPORT_ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('inquiries')
+      .select(EXPORT_SELECT)
+      .in('id', ids.slice(from, from + EXPORT_ID_CHUNK_SIZE))
+      .order('created_at', { referencedTable: 'follow_ups', ascending: false })
+      .limit(1, { referencedTable: 'follow_ups' });
+
+    if (error) throw error;
+    inquiries.push(...(data || []));
+  }
+
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return inquiries.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+}
+
+/**
+ * Stops spreadsheet apps from running user-entered text as a formula, e.g. a
+ * note starting with "=HYPERLINK(". The leading quote shows as plain text.
+ */
+function toSafeCell(value: string) {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function toExportRows(inquiries: ExportInquiry[], stageLabel: (key: string) => string) {
+  return inquiries.map((inquiry) => ({
+    'Student Name': toSafeCell(inquiry.student_name),
+    'Contact Number': toSafeCell(inquiry.contact_number),
+    Email: toSafeCell(inquiry.email ?? ''),
+    'Course Interested': toSafeCell(inquiry.course_interested),
+    Stage: toSafeCell(stageLabel(inquiry.status)),
+    'Assigned Counselor': toSafeCell(inquiry.assigned_user?.full_name ?? ''),
+    Tags: toSafeCell(inquiry.tags.join(', ')),
+    'Latest Follow-up Note': toSafeCell(inquiry.follow_ups?.[0]?.notes ?? ''),
+    'Next Follow-up': formatDate(inquiry.next_follow_up_at),
+    'Additional Notes': toSafeCell(inquiry.more_input ?? ''),
+    'Created At': formatDate(inquiry.created_at),
+    'Updated At': formatDate(inquiry.updated_at),
+  }));
+}
+
+function saveFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function downloadInquiries(
+  inquiries: ExportInquiry[],
+  exportFormat: ExportFormat,
+  stageLabel: (key: string) => string
+) {
+  const rows = toExportRows(inquiries, stageLabel);
+  const fileName = `inquiries-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${exportFormat}`;
+
+  if (exportFormat === 'csv') {
+    // The byte order mark makes Excel open the file as UTF-8.
+    saveFile(new Blob(['\ufeff', unparse(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+    return;
+  }
+
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  await writeXlsxFile([headers, ...rows.map((row) => Object.values(row))], { sheet: 'Inquiries' }).toFile(fileName);
+}
+
+/**
+ * Builds a single-inquiry PDF with the student details and the complete
+ * follow-up timeline, oldest entry first.
+ */
+export function downloadInquiryDossier(
+  inquiry: Inquiry & { assigned_user?: { full_name: string } | null },
+  followUps: FollowUp[],
+  stageLabel: (key: string) => string
+) {
+  const doc = new jsPDF();
+
+  doc.setFontSize(18);
+  doc.text(inquiry.student_name, 14, 20);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Inquiry dossier generated ${format(new Date(), 'PPp')}`, 14, 27);
+
+  autoTable(doc, {
+    startY: 34,
+    theme: 'plain',
+    styles: { fontSize: 10 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 } },
+    body: [
+      ['Contact Number', inquiry.contact_number],
+      ['Email', inquiry.email ?? '-'],
+      ['Course Interested', inquiry.course_interested],
+      ['Stage', stageLabel(inquiry.status)],
+      ['Assigned Counselor', inquiry.assigned_user?.full_name ?? 'Unassigned'],
+      ['Created On', formatDate(inquiry.created_at, 'PPp')],
+      ['Next Follow-up', formatDate(inquiry.next_follow_up_at, 'PPp') || '-'],
+      ['Additional Notes', inquiry.more_input ?? '-'],
+    ],
+  });
+
+  const timeline = [...followUps].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  autoTable(doc, {
+    head: [['Logged', 'Follow-up Date', 'By', 'State', 'Notes']],
+    body: timeline.length
+      ? timeline.map((followUp) => [
+          formatDate(followUp.created_at, 'PPp'),
+          formatDate(followUp.follow_up_date, 'PPp'),
+          followUp.creator?.full_name ?? '-',
+          FOLLOW_UP_STATES[followUp.state].label +
+            (followUp.outcome ? `\n${FOLLOW_UP_OUTCOMES[followUp.outcome]}` : ''),
+          followUp.notes + (followUp.voice_recording_path ? '\n(voice recording attached)' : ''),
+        ])
+      : [['', '', '', '', 'No follow-ups recorded']],
+    headStyles: { fillColor: [2, 132, 199] },
+    styles: { fontSize: 9, valign: 'top' },
+    columnStyles: { 4: { cellWidth: 70 } },
+  });
+
+  const slug = inquiry.student_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  doc.save(`inquiry-${slug || inquiry.id}.pdf`);
+}
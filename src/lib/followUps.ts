@@ -0,0 +1,97 @@
+import { supabase, Database } from './supabase';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type FollowUp = Database['public']['Tables']['follow_ups']['Row'];
+type Inquiry = Database['public']['Tables']['inquiries']['Row'];
+
+export type AgendaFollowUp = FollowUp & {
+  inquiry: Inquiry & { assigned_user?: { full_name: string } | null };
+};
+
+export const FOLLOW_UP_STATES = {
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  missed: { label: 'Missed', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-200 text-gray-700' },
+} as const;
+
+export const FOLLOW_UP_OUTCOMES = {
+  spoke_to_student: 'Spoke to student',
+  no_answer: 'No answer',
+  call_back_later: 'Call back later',
+  visited_campus: 'Visited campus',
+} as const;
+
+export type FollowUpState = keyof typeof FOLLOW_UP_STATES;
+export type FollowUpOutcome = keyof typeof FOLLOW_UP_OUTCOMES;
+
+/**
+ * Formats a timestamp for a `datetime-local` input, which expects local time
+ * without a zone suffix.
+ */
+export function toDateTimeLocal(value: string) {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * Whether the user may complete or reschedule a follow-up from the agenda or
+ * calendar: its author, the counselor the inquiry is assigned to, or an admin.
+ * Mirrors the follow_ups UPDATE policy.
+ */
+export function canActionFollowUp(followUp: AgendaFollowUp, profile: Profile | null) {
+  return (
+    profile?.role === 'admin' ||
+    followUp.created_by === profile?.id ||
+    followUp.inquiry.assigned_to === profile?.id
+  );
+}
+
+export const AGENDA_FOLLOW_UP_SELECT = `
+  *,
+  inquiry:inquiries!inner(
+    *,
+    assigned_user:profiles!inquiries_assigned_to_fkey(full_name)
+  )
+`;
+
+/**
+ * Builds a query for scheduled follow-ups due on or before `until`, soonest
+ * first, optionally limited to inquiries assigned to one counselor. RLS still
+ * decides which inquiries the caller can see.
+ */
+export function buildScheduledFollowUpQuery<Select extends string>(
+  { until, assignedTo }: { until: Date; assignedTo?: string },
+  select: Select,
+  options: { count?: 'exact'; head?: boolean } = {}
+) {
+  let query = supabase
+    .from('follow_ups')
+    .select(select, options)
+    .eq('state', 'scheduled')
+    .lte('follow_up_date', until.toISOString());
+
+  if (assignedTo) {
+    query = query.eq('inquiry.assigned_to', assignedTo);
+  }
+
+  return query.order('follow_up_date');
+}
+
+/**
+ * Builds a query for follow-ups of any state dated within `[from, to]`,
+ * optionally limited to inquiries assigned to one counselor.
+ */
+export function buildFollowUpRangeQuery({ from, to, assignedTo }: { from: Date; to: Date; assignedTo?: string }) {
+  let query = supabase
+    .from('follow_ups')
+    .select(AGENDA_FOLLOW_UP_SELECT)
+    .gte('follow_up_date', from.toISOString())
+    .lte('follow_up_date', to.toISOString());
+
+  if (assignedTo) {
+    query = query.eq('inquiry.assigned_to', assignedTo);
+  }
+
+  return query.order('follow_up_date');
+}
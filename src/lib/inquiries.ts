@@ -0,0 +1,163 @@
+import { supabase, Database } from './supabase';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+export const INQUIRY_PAGE_SIZE = 24;
+
+// Cards loaded per board column at a time; each column pages on its own.
+export const BOARD_COLUMN_SIZE = 50;
+
+export const INQUIRY_LIST_SELECT = `
+  *,
+  assigned_user:profiles!inquiries_assigned_to_fkey(full_name)
+`;
+
+export const INQUIRY_SORT_OPTIONS = {
+  created_desc: { label: 'Newest first', column: 'created_at', ascending: false },
+  created_asc: { label: 'Oldest first', column: 'created_at', ascending: true },
+  updated_desc: { label: 'Recently updated', column: 'updated_at', ascending: false },
+  name_asc: { label: 'Student name (A-Z)', column: 'student_name', ascending: true },
+  name_desc: { label: 'Student name (Z-A)', column: 'student_name', ascending: false },
+  follow_up_asc: { label: 'Next follow-up', column: 'next_follow_up_at', ascending: true },
+} as const;
+
+export type InquirySort = keyof typeof INQUIRY_SORT_OPTIONS;
+
+export interface InquiryFilters {
+  search: string;
+  status: string;
+  sort: InquirySort;
+  page: number;
+}
+
+export const DEFAULT_INQUIRY_FILTERS: InquiryFilters = {
+  search: '',
+  status: 'all',
+  sort: 'created_desc',
+  page: 1,
+};
+
+export function parseInquiryFilters(params: URLSearchParams): InquiryFilters {
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') ?? DEFAULT_INQUIRY_FILTERS.search,
+    status: params.get('status') ?? DEFAULT_INQUIRY_FILTERS.status,
+    sort: sort && sort in INQUIRY_SORT_OPTIONS ? (sort as InquirySort) : DEFAULT_INQUIRY_FILTERS.sort,
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_INQUIRY_FILTERS.page,
+  };
+}
+
+export function toInquirySearchParams(filters: InquiryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set('q', filters.search);
+  if (filters.status !== DEFAULT_INQUIRY_FILTERS.status) params.set('status', filters.status);
+  if (filters.sort !== DEFAULT_INQUIRY_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.page !== DEFAULT_INQUIRY_FILTERS.page) params.set('page', String(filters.page));
+
+  return params;
+}
+
+// Turns free text into a prefix-matching tsquery, e.g. "web dev" -> "web:* & dev:*".
+export function toSearchQuery(search: string): string {
+  return search
+    .replace(/[&|!():*<>'"\\]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `${term}:*`)
+    .join(' & ');
+}
+
+/**
+ * Builds the inquiry list query for the given filters, scoped the same way as
+ * the RLS policies: employees only ever see inquiries assigned to them.
+ * Pagination is left to the caller so the same filters can drive exports.
+ * Pass the select as a string literal so the result rows stay typed.
+ */
+export function buildInquiryQuery<Select extends string>(
+  filters: Omit<InquiryFilters, 'page'>,
+  profile: Profile | null,
+  select: Select,
+  options: { count?: 'exact' } = {}
+) {
+  const sort = INQUIRY_SORT_OPTIONS[filters.sort];
+
+  let query = supabase.from('inquiries').select(select, options);
+
+  if (profile?.role === 'employee') {
+    query = query.eq('assigned_to', profile.id);
+  }
+
+  if (filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+
+  const searchQuery = toSearchQuery(filters.search);
+  if (searchQuery) {
+    query = query.textSearch('search_vector', searchQuery, { config: 'simple' });
+  }
+
+  return query
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id', { ascending: true });
+}
+
+// Mirrors the `normalized_phone` generated column: digits only, last 10 kept.
+export function normalizePhone(value: string): string {
+  return value.replace(/\D/g, '').slice(-10);
+}
+
+// Mirrors the `normalized_email` generated column.
+export function normalizeEmail(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Finds existing inquiries whose normalized phone number or email matches the
+ * given values. Used to warn before the same student is entered twice.
+ */
+export async function findPossibleDuplicates(
+  contactNumber: string,
+  email: string
+): Promise<(Database['public']['Tables']['inquiries']['Row'] & { assigned_user?: { full_name: string } | null })[]> {
+  const conditions: string[] = [];
+  const phone = normalizePhone(contactNumber);
+  const normalizedEmail = normalizeEmail(email);
+
+  if (phone.length >= 7) conditions.push(`normalized_phone.eq.${phone}`);
+  if (normalizedEmail.includes('@')) conditions.push(`normalized_email.eq."${normalizedEmail.replace(/"/g, '')}"`);
+  if (conditions.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('inquiries')
+    .select(INQUIRY_LIST_SELECT)
+    .or(conditions.join(','))
+    .order('created_at', { ascending: false })
+    .limit(5);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Returns the subset of the given normalized phone numbers that already belong
+ * to an inquiry. Numbers are looked up in chunks to keep the request URL short.
+ */
+export async function findExistingPhones(normalizedPhones: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  const unique = [...new Set(normalizedPhones.filter(Boolean))];
+
+  for (let i = 0; i < unique.length; i += 200) {
+    const { data, error } = await supabase
+      .from('inquiries')
+      .select('normalized_phone')
+      .in('normalized_phone', unique.slice(i, i + 200));
+
+    if (error) throw error;
+    data?.forEach((row) => existing.add(row.normalized_phone));
+  }
+
+  return existing;
+}
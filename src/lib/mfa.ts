@@ -0,0 +1,129 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { fetchAppSetting } from './appSettings';
+import { UserRole } from './userAdmin';
+
+export type MfaPolicy = {
+  // Roles that must set up an authenticator app before using the app.
+  roles: UserRole[];
+};
+
+export type TotpEnrollment = {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+};
+
+// Mirrors the error codes returned by the `mfa-recovery` Edge Function.
+export type MfaRecoveryErrorCode =
+  | 'unauthorized'
+  | 'invalid_request'
+  | 'invalid_code'
+  | 'too_many_attempts'
+  | 'server_error';
+
+export class MfaRecoveryError extends Error {
+  constructor(public code: MfaRecoveryErrorCode, message: string) {
+    super(message);
+    this.name = 'MfaRecoveryError';
+  }
+}
+
+export const MFA_POLICY_SETTING = 'mfa_required_roles';
+
+export const DEFAULT_MFA_POLICY: MfaPolicy = { roles: [] };
+
+export function fetchMfaPolicy() {
+  return fetchAppSetting<MfaPolicy>(MFA_POLICY_SETTING, DEFAULT_MFA_POLICY);
+}
+
+/**
+ * The session's assurance level: `current` is 'aal2' once the user has
+ * entered an authenticator code, and `next` is 'aal2' when they have an
+ * authenticator to enter a code from.
+ */
+export async function fetchAssuranceLevel() {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  return { current: data.currentLevel, next: data.nextLevel };
+}
+
+export async function fetchVerifiedTotpFactor() {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+  return data.totp[0] ?? null;
+}
+
+/**
+ * Starts enrolling an authenticator app. Unfinished enrollments from earlier
+ * attempts are removed first, as Supabase rejects duplicate factor names.
+ */
+export async function startTotpEnrollment(): Promise<TotpEnrollment> {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+
+  for (const factor of factors.all) {
+    if (factor.status === 'unverified') {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: 'Authenticator app' });
+  if (error) throw error;
+
+  const qrCode = data.totp.qr_code.startsWith('data:')
+    ? data.totp.qr_code
+    : `data:image/svg+xml;utf-8,${encodeURIComponent(data.totp.qr_code)}`;
+
+  return { factorId: data.id, qrCode, secret: data.totp.secret };
+}
+
+/** Checks a code from the authenticator app, raising the session to AAL2. */
+export async function verifyTotpCode(factorId: string, code: string) {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+  if (error) throw error;
+}
+
+export async function removeTotpFactor(factorId: string) {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  if (refreshError) throw refreshError;
+}
+
+/** Replaces the user's recovery codes. The codes are only ever shown now. */
+export async function generateRecoveryCodes() {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw error;
+  return data as string[];
+}
+
+export async function fetchRecoveryCodesRemaining() {
+  const { data, error } = await supabase.rpc('mfa_recovery_codes_remaining');
+  if (error) throw error;
+  return data as number;
+}
+
+/**
+ * Signs in with a recovery code instead of the authenticator. The server
+ * removes the user's authenticator, so they need to set up a new one.
+ */
+export async function redeemRecoveryCode(code: string) {
+  const { error } = await supabase.functions.invoke('mfa-recovery', { body: { code } });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error?.code) {
+        throw new MfaRecoveryError(payload.error.code, payload.error.message);
+      }
+    }
+    throw new MfaRecoveryError('server_error', 'Could not reach the server. Please try again.');
+  }
+
+  // The session still claims the removed factor until it is refreshed.
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  if (refreshError) throw refreshError;
+}
@@ -0,0 +1,100 @@
+import { supabase, Database } from './supabase';
+
+export type AppNotification = Database['public']['Tables']['notifications']['Row'];
+
+const RECENT_NOTIFICATION_LIMIT = 30;
+
+const BROWSER_NOTIFICATIONS_KEY = 'notifications.browser';
+
+export async function fetchRecentNotifications() {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(RECENT_NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+  return (data || []) as AppNotification[];
+}
+
+export async function fetchUnreadNotificationCount() {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+export async function markNotificationsRead(ids?: string[]) {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .is('read_at', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * Subscribes to notifications inserted for `userId`. Returns a function that
+ * removes the subscription.
+ */
+export function subscribeToNotifications(userId: string, onInsert: (notification: AppNotification) => void) {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => onInsert(payload.new as AppNotification)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export function browserNotificationsSupported() {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export function browserNotificationsEnabled() {
+  return (
+    browserNotificationsSupported() &&
+    Notification.permission === 'granted' &&
+    localStorage.getItem(BROWSER_NOTIFICATIONS_KEY) === 'on'
+  );
+}
+
+/**
+ * Turns desktop notifications on or off for this browser, asking for
+ * permission the first time. Returns whether they end up enabled.
+ */
+export async function setBrowserNotificationsEnabled(enabled: boolean) {
+  if (!enabled || !browserNotificationsSupported()) {
+    localStorage.removeItem(BROWSER_NOTIFICATIONS_KEY);
+    return false;
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    localStorage.removeItem(BROWSER_NOTIFICATIONS_KEY);
+    return false;
+  }
+
+  localStorage.setItem(BROWSER_NOTIFICATIONS_KEY, 'on');
+  return true;
+}
+
+// A reassigned inquiry may no longer be visible to its previous counselor,
+// so those notifications do not link anywhere.
+export function getNotificationLink(notification: AppNotification) {
+  if (notification.type === 'inquiry_unassigned') return null;
+  return `/inquiries?inquiry=${notification.inquiry_id}`;
+}
@@ -0,0 +1,88 @@
+import { AuthError } from '@supabase/supabase-js';
+import { createDetachedClient, supabase } from './supabase';
+
+export type PasswordRule = {
+  label: string;
+  test: (password: string) => boolean;
+};
+
+// Mirror these under Authentication > Providers > Email in the Supabase
+// dashboard so the server rejects the same passwords the forms do.
+export const PASSWORD_RULES: PasswordRule[] = [
+  { label: 'At least 8 characters', test: (password) => password.length >= 8 },
+  {
+    label: 'An uppercase and a lowercase letter',
+    test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password),
+  },
+  { label: 'A number', test: (password) => /\d/.test(password) },
+];
+
+/**
+ * Returns why a new password cannot be used, or null if it meets every rule
+ * and matches its confirmation.
+ */
+export function passwordProblem(password: string, confirmation: string) {
+  const unmet = PASSWORD_RULES.filter((rule) => !rule.test(password));
+  if (unmet.length > 0) {
+    return `Your password needs: ${unmet.map((rule) => rule.label.toLowerCase()).join(', ')}.`;
+  }
+  if (password !== confirmation) {
+    return 'The passwords do not match.';
+  }
+  return null;
+}
+
+export function passwordErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof AuthError) {
+    switch (error.code) {
+      case 'same_password':
+        return 'Choose a password different from your current one.';
+      case 'weak_password':
+        return 'This password is too weak. Choose a longer password with letters and numbers.';
+      case 'invalid_credentials':
+        return 'Your current password is incorrect.';
+      case 'over_email_send_rate_limit':
+        return 'Too many emails have been sent. Please wait a few minutes and try again.';
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Supabase reports a bad or used-up email link in the URL hash instead of
+ * signing the visitor in, e.g. `#error=access_denied&error_description=...`.
+ */
+export function authLinkErrorFromUrl() {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  return params.get('error_description');
+}
+
+export async function sendPasswordResetEmail(email: string) {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: `${window.location.origin}/reset-password`,
+  });
+  if (error) throw error;
+}
+
+export async function updatePassword(password: string) {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+}
+
+/**
+ * Checks the current password before setting the new one, so an unattended
+ * session cannot be used to take over the account. The check signs in on a
+ * detached client: signing in again on the app's client would drop a session
+ * verified with an authenticator code back to AAL1, and Supabase refuses
+ * password changes from such sessions for users with an authenticator.
+ */
+export async function changePassword(email: string, currentPassword: string, newPassword: string) {
+  const checker = createDetachedClient();
+  const { error } = await checker.auth.signInWithPassword({ email, password: currentPassword });
+  if (error) throw error;
+
+  // Only ends the throwaway session; the app's session stays signed in.
+  await checker.auth.signOut({ scope: 'local' });
+
+  await updatePassword(newPassword);
+}
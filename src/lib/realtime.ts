@@ -0,0 +1,41 @@
+import { supabase, Database } from './supabase';
+
+type Tables = Database['public']['Tables'];
+
+export type RowChange<T extends keyof Tables> = {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Tables[T]['Row'] | null;
+  old: Partial<Tables[T]['Row']>;
+};
+
+let channelCount = 0;
+
+/**
+ * Subscribes to inserts, updates and deletes on `table`, optionally narrowed
+ * with a Realtime filter such as `inquiry_id=eq.<id>`. Returns a function that
+ * removes the subscription.
+ *
+ * Realtime applies the table's RLS policies, so callers only hear about rows
+ * they could select. Deletes cannot be filtered and only carry the primary
+ * key in `old`.
+ */
+export function subscribeToRowChanges<T extends keyof Tables>(
+  table: T,
+  onChange: (change: RowChange<T>) => void,
+  filter?: string
+) {
+  const channel = supabase
+    .channel(`${table}:changes:${++channelCount}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table, filter }, (payload) => {
+      onChange({
+        eventType: payload.eventType,
+        new: payload.eventType === 'DELETE' ? null : (payload.new as Tables[T]['Row']),
+        old: payload.old as Partial<Tables[T]['Row']>,
+      });
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,40 @@
+import { parse } from 'papaparse';
+import { readSheet } from 'read-excel-file/browser';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+function isCsv(file: File) {
+  return file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+}
+
+function toCellText(cell: unknown) {
+  // Date cells are read as midnight UTC, so take the calendar day in UTC.
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return cell === null || cell === undefined ? '' : String(cell);
+}
+
+async function readTable(file: File): Promise<unknown[][]> {
+  if (isCsv(file)) {
+    return parse<string[]>(await file.text(), { skipEmptyLines: 'greedy' }).data;
+  }
+
+  return readSheet(file);
+}
+
+/**
+ * Reads a CSV file, or the first sheet of an XLSX file, into a header row and
+ * string cells. Fully empty rows are dropped.
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const [headerRow = [], ...dataRows] = await readTable(file);
+
+  const headers = headerRow.map((cell, index) => toCellText(cell).trim() || `Column ${index + 1}`);
+  const rows = dataRows
+    .map((row) => headers.map((_, index) => toCellText(row[index]).trim()))
+    .filter((row) => row.some((cell) => cell !== ''));
+
+  return { headers, rows };
+}
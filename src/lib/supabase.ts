@@ -9,6 +9,16 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+/**
+ * A client whose session lives only in memory, for signing in without
+ * replacing the app's own session.
+ */
+export function createDetachedClient() {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false, storageKey: 'sb-detached-auth' },
+  });
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -20,10 +30,13 @@ export type Database = {
           role: 'admin' | 'co_leader' | 'employee';
           created_by: string | null;
           is_active: boolean;
+          on_leave: boolean;
           created_at: string;
           updated_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['profiles']['Row'], 'created_at' | 'updated_at'>;
+        Insert: Omit<Database['public']['Tables']['profiles']['Row'], 'on_leave' | 'created_at' | 'updated_at'> & {
+          on_leave?: boolean;
+        };
         Update: Partial<Database['public']['Tables']['profiles']['Insert']>;
       };
       inquiries: {
@@ -34,13 +47,33 @@ export type Database = {
           email: string | null;
           course_interested: string;
           more_input: string | null;
-          status: 'pending' | 'converted' | 'dropped';
+          status: string;
           assigned_to: string | null;
           created_by: string | null;
+          next_follow_up_at: string | null;
+          normalized_phone: string;
+          normalized_email: string | null;
+          loss_reason_id: string | null;
+          loss_note: string | null;
+          tags: string[];
           created_at: string;
           updated_at: string;
+          updated_by: string | null;
         };
-        Insert: Omit<Database['public']['Tables']['inquiries']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Insert: Omit<
+          Database['public']['Tables']['inquiries']['Row'],
+          | 'id'
+          | 'status'
+          | 'next_follow_up_at'
+          | 'normalized_phone'
+          | 'normalized_email'
+          | 'loss_reason_id'
+          | 'loss_note'
+          | 'tags'
+          | 'created_at'
+          | 'updated_at'
+          | 'updated_by'
+        > & { status?: string; loss_reason_id?: string | null; loss_note?: string | null; tags?: string[] };
         Update: Partial<Database['public']['Tables']['inquiries']['Insert']>;
       };
       follow_ups: {
@@ -49,13 +82,121 @@ export type Database = {
           inquiry_id: string;
           notes: string;
           follow_up_date: string;
-          voice_recording_url: string | null;
+          voice_recording_path: string | null;
+          state: 'scheduled' | 'completed' | 'missed' | 'cancelled';
+          outcome: 'spoke_to_student' | 'no_answer' | 'call_back_later' | 'visited_campus' | null;
           created_by: string | null;
           created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<
+          Database['public']['Tables']['follow_ups']['Row'],
+          'id' | 'state' | 'outcome' | 'created_at' | 'updated_at'
+        > & {
+          state?: Database['public']['Tables']['follow_ups']['Row']['state'];
+          outcome?: Database['public']['Tables']['follow_ups']['Row']['outcome'];
         };
-        Insert: Omit<Database['public']['Tables']['follow_ups']['Row'], 'id' | 'created_at'>;
         Update: Partial<Database['public']['Tables']['follow_ups']['Insert']>;
       };
+      pipeline_stages: {
+        Row: {
+          key: string;
+          label: string;
+          color: string;
+          position: number;
+          kind: 'open' | 'won' | 'lost';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['pipeline_stages']['Row'], 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Database['public']['Tables']['pipeline_stages']['Insert'], 'key'>>;
+      };
+      loss_reasons: {
+        Row: {
+          id: string;
+          label: string;
+          position: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['loss_reasons']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['loss_reasons']['Insert']>;
+      };
+      inquiry_history: {
+        Row: {
+          id: string;
+          inquiry_id: string;
+          follow_up_id: string | null;
+          action: 'created' | 'updated' | 'merged' | 'follow_up_added' | 'follow_up_updated' | 'follow_up_deleted';
+          field: string | null;
+          old_value: string | null;
+          new_value: string | null;
+          changed_by: string | null;
+          changed_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      inquiry_merges: {
+        Row: {
+          id: string;
+          primary_inquiry_id: string;
+          merged_inquiry_id: string;
+          merged_snapshot: Database['public']['Tables']['inquiries']['Row'];
+          follow_ups_moved: number;
+          merged_by: string | null;
+          merged_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      calendar_feed_tokens: {
+        Row: {
+          user_id: string;
+          token: string;
+          created_at: string;
+          last_used_at: string | null;
+        };
+        Insert: Partial<Database['public']['Tables']['calendar_feed_tokens']['Row']>;
+        Update: never;
+      };
+      app_settings: {
+        Row: {
+          key: string;
+          value: unknown;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: Pick<Database['public']['Tables']['app_settings']['Row'], 'key' | 'value'> & { updated_by?: string | null };
+        Update: Partial<Database['public']['Tables']['app_settings']['Insert']>;
+      };
+      course_assignments: {
+        Row: {
+          id: string;
+          course: string;
+          counselor_id: string;
+          created_at: string;
+        };
+        Insert: Pick<Database['public']['Tables']['course_assignments']['Row'], 'course' | 'counselor_id'>;
+        Update: never;
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'inquiry_assigned' | 'inquiry_unassigned' | 'inquiry_status_changed' | 'follow_up_due';
+          inquiry_id: string;
+          follow_up_id: string | null;
+          title: string;
+          body: string | null;
+          actor_id: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: never;
+        Update: Pick<Database['public']['Tables']['notifications']['Row'], 'read_at'>;
+      };
     };
   };
 };
@@ -0,0 +1,88 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, Database } from './supabase';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+export type UserRole = Profile['role'];
+
+export type UserInvitation = {
+  sent_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+};
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired';
+
+// Mirrors the error codes returned by the `manage-users` Edge Function.
+export type UserAdminErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'mfa_required'
+  | 'invalid_request'
+  | 'email_taken'
+  | 'not_found'
+  | 'already_accepted'
+  | 'self_action'
+  | 'server_error';
+
+/**
+ * A failed `manage-users` call. `message` is written for the admin and can be
+ * shown as is; `code` lets callers react to specific cases.
+ */
+export class UserAdminError extends Error {
+  constructor(public code: UserAdminErrorCode, message: string) {
+    super(message);
+    this.name = 'UserAdminError';
+  }
+}
+
+async function invokeManageUsers<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('manage-users', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error?.code) {
+        throw new UserAdminError(payload.error.code, payload.error.message);
+      }
+    }
+    throw new UserAdminError('server_error', 'Could not reach the server. Please try again.');
+  }
+
+  return data as T;
+}
+
+export async function inviteUser(user: { email: string; full_name: string; role: UserRole }) {
+  const { profile } = await invokeManageUsers<{ profile: Profile }>({ action: 'invite', ...user });
+  return profile;
+}
+
+export async function resendInvite(userId: string) {
+  const { invitation } = await invokeManageUsers<{ invitation: UserInvitation }>({
+    action: 'resend_invite',
+    user_id: userId,
+  });
+  return invitation;
+}
+
+export async function revokeInvite(userId: string) {
+  await invokeManageUsers<{ revoked: string }>({ action: 'revoke_invite', user_id: userId });
+}
+
+export async function changeUserRole(userId: string, role: UserRole) {
+  const { profile } = await invokeManageUsers<{ profile: Profile }>({ action: 'change_role', user_id: userId, role });
+  return profile;
+}
+
+export async function deleteUser(userId: string) {
+  await invokeManageUsers<{ deleted: string }>({ action: 'delete', user_id: userId });
+}
+
+export function userAdminErrorMessage(error: unknown, fallback: string) {
+  return error instanceof UserAdminError ? error.message : fallback;
+}
+
+export function getInvitationStatus(invitation: UserInvitation): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted';
+  return new Date(invitation.expires_at) < new Date() ? 'expired' : 'pending';
+}
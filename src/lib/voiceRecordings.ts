@@ -0,0 +1,32 @@
+import { supabase } from './supabase';
+
+const VOICE_RECORDINGS_BUCKET = 'voice-recordings';
+
+// Long enough to listen to a call, short enough that a copied link goes stale quickly.
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+/**
+ * Uploads a recording under `<inquiry id>/<timestamp>.<ext>` and returns the
+ * object path to store on the follow-up. The storage policies key access off
+ * the inquiry folder, so the path scheme must not change.
+ */
+export async function uploadVoiceRecording(inquiryId: string, file: File) {
+  const fileExt = file.name.split('.').pop();
+  const path = `${inquiryId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(VOICE_RECORDINGS_BUCKET)
+    .upload(path, file);
+
+  if (error) throw error;
+  return path;
+}
+
+export async function getVoiceRecordingUrl(path: string) {
+  const { data, error } = await supabase.storage
+    .from(VOICE_RECORDINGS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { MailCheck, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthLayout, AuthLinkProblem } from '../components/AuthLayout';
+import { NewPasswordFields } from '../components/NewPasswordFields';
+import { supabase } from '../lib/supabase';
+import { authLinkErrorFromUrl, passwordErrorMessage, passwordProblem, updatePassword } from '../lib/password';
+import { getInvitationStatus, InvitationStatus, UserInvitation } from '../lib/userAdmin';
+
+const INVALID_LINK_MESSAGE = 'This invite link is invalid or has expired. Ask your admin to send a new one.';
+
+export function AcceptInvite() {
+  const { user, profile, refreshProfile } = useAuth();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<InvitationStatus | 'not_found' | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadInvitation(user.id);
+    }
+  }, [user]);
+
+  async function loadInvitation(userId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select('sent_at, expires_at, accepted_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setStatus(data ? getInvitationStatus(data as UserInvitation) : 'not_found');
+    } catch (error) {
+      console.error('Error loading invitation:', error);
+      setStatus('not_found');
+    }
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    const problem = passwordProblem(password, confirmPassword);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await updatePassword(password);
+
+      const { data: result, error: acceptError } = await supabase.rpc('accept_invitation');
+      if (acceptError) throw acceptError;
+
+      if (result !== 'accepted') {
+        setStatus(result === 'expired' ? 'expired' : 'not_found');
+        return;
+      }
+
+      await refreshProfile();
+      navigate('/dashboard', { replace: true });
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      setError(passwordErrorMessage(error, 'Failed to set your password. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!user) {
+    return (
+      <AuthLayout icon={MailCheck} title="Accept Invite" subtitle="Set up your account">
+        <AuthLinkProblem message={authLinkErrorFromUrl() ?? INVALID_LINK_MESSAGE} />
+      </AuthLayout>
+    );
+  }
+
+  // Someone who already joined followed an old link; nothing to do here.
+  if (status === 'accepted' || (status === 'not_found' && profile?.is_active)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (status === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (status !== 'pending') {
+    return (
+      <AuthLayout icon={MailCheck} title="Accept Invite" subtitle="Set up your account">
+        <AuthLinkProblem message={INVALID_LINK_MESSAGE} />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout
+      icon={MailCheck}
+      title={`Welcome${profile ? `, ${profile.full_name.split(' ')[0]}` : ''}`}
+      subtitle="Choose a password to finish setting up your account"
+    >
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+        >
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </motion.div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+            Email Address
+          </label>
+          <input
+            id="email"
+            type="email"
+            value={user.email ?? ''}
+            disabled
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-gray-50 text-gray-600"
+          />
+        </div>
+
+        <NewPasswordFields
+          password={password}
+          confirmPassword={confirmPassword}
+          onPasswordChange={setPassword}
+          onConfirmPasswordChange={setConfirmPassword}
+        />
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          disabled={saving}
+          className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Setting up...' : 'Set Password & Continue'}
+        </motion.button>
+      </form>
+    </AuthLayout>
+  );
+}
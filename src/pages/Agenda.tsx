@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarCheck, AlertTriangle, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { addDays, endOfDay, endOfToday, startOfToday, subMilliseconds } from 'date-fns';
+import { AGENDA_FOLLOW_UP_SELECT, AgendaFollowUp, buildScheduledFollowUpQuery, canActionFollowUp } from '../lib/followUps';
+import { AgendaItem } from '../components/AgendaItem';
+import { InquiryDetailsModal } from '../components/InquiryDetailsModal';
+
+type AgendaView = 'mine' | 'team';
+
+const UPCOMING_DAYS = 7;
+
+interface AgendaSection {
+  title: string;
+  followUps: AgendaFollowUp[];
+  overdue?: boolean;
+}
+
+export function Agenda() {
+  const { profile } = useAuth();
+  const [followUps, setFollowUps] = useState<AgendaFollowUp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<AgendaView>('mine');
+  const [selectedFollowUp, setSelectedFollowUp] = useState<AgendaFollowUp | null>(null);
+
+  const canViewTeam = profile?.role === 'admin' || profile?.role === 'co_leader';
+
+  useEffect(() => {
+    loadAgenda();
+  }, [profile, view]);
+
+  async function loadAgenda() {
+    if (!profile) return;
+
+    try {
+      const { data, error } =
+        view === 'team'
+          ? await buildScheduledFollowUpQuery({ until: subMilliseconds(startOfToday(), 1) }, AGENDA_FOLLOW_UP_SELECT)
+          : await buildScheduledFollowUpQuery(
+              { until: endOfDay(addDays(new Date(), UPCOMING_DAYS)), assignedTo: profile.id },
+              AGENDA_FOLLOW_UP_SELECT
+            );
+
+      if (error) throw error;
+      setFollowUps(data || []);
+    } catch (error) {
+      console.error('Error loading agenda:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function buildSections(): AgendaSection[] {
+    if (view === 'team') {
+      const byCounselor = new Map<string, AgendaFollowUp[]>();
+      followUps.forEach((followUp) => {
+        const name = followUp.inquiry.assigned_user?.full_name ?? 'Unassigned';
+        byCounselor.set(name, [...(byCounselor.get(name) ?? []), followUp]);
+      });
+
+      return [...byCounselor.entries()]
+        .sort(([, a], [, b]) => b.length - a.length)
+        .map(([name, items]) => ({ title: `${name} (${items.length})`, followUps: items, overdue: true }));
+    }
+
+    const todayStart = startOfToday();
+    const todayEnd = endOfToday();
+    const dueAt = (followUp: AgendaFollowUp) => new Date(followUp.follow_up_date);
+
+    return [
+      { title: 'Overdue', followUps: followUps.filter((f) => dueAt(f) < todayStart), overdue: true },
+      { title: 'Today', followUps: followUps.filter((f) => dueAt(f) >= todayStart && dueAt(f) <= todayEnd) },
+      { title: `Next ${UPCOMING_DAYS} Days`, followUps: followUps.filter((f) => dueAt(f) > todayEnd) },
+    ];
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const sections = buildSections();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-gray-900">
+            {view === 'team' ? 'Team Overdue Follow-ups' : 'My Day'}
+          </h1>
+          <p className="text-gray-600 mt-2">
+            {view === 'team'
+              ? 'Scheduled follow-ups that are past due, grouped by counselor'
+              : 'Scheduled follow-ups for the inquiries assigned to you'}
+          </p>
+        </div>
+        {canViewTeam && (
+          <div className="flex bg-white border border-gray-300 rounded-lg p-1">
+            <button
+              onClick={() => setView('mine')}
+              className={`flex items-center gap-2 px-3 py-2 rounded-md transition ${
+                view === 'mine' ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <CalendarCheck className="w-4 h-4" />
+              Mine
+            </button>
+            <button
+              onClick={() => setView('team')}
+              className={`flex items-center gap-2 px-3 py-2 rounded-md transition ${
+                view === 'team' ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Users className="w-4 h-4" />
+              Team Overdue
+            </button>
+          </div>
+        )}
+      </div>
+
+      {followUps.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="bg-white rounded-xl shadow-md p-12 text-center border border-gray-100"
+        >
+          <CalendarCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-heading font-semibold text-gray-900 mb-2">
+            {view === 'team' ? 'Nothing overdue' : 'Your agenda is clear'}
+          </h3>
+          <p className="text-gray-600">
+            {view === 'team'
+              ? 'Every scheduled follow-up across the team is on time.'
+              : `No scheduled follow-ups in the next ${UPCOMING_DAYS} days.`}
+          </p>
+        </motion.div>
+      ) : (
+        sections
+          .filter((section) => section.followUps.length > 0)
+          .map((section, index) => (
+            <motion.section
+              key={section.title}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="space-y-3"
+            >
+              <h2
+                className={`flex items-center gap-2 text-xl font-heading font-bold ${
+                  section.overdue && view === 'mine' ? 'text-red-600' : 'text-gray-900'
+                }`}
+              >
+                {section.overdue && view === 'mine' && <AlertTriangle className="w-5 h-5" />}
+                {section.title}
+                {view === 'mine' && <span className="text-gray-500 font-normal">({section.followUps.length})</span>}
+              </h2>
+              {section.followUps.map((followUp) => (
+                <AgendaItem
+                  key={followUp.id}
+                  followUp={followUp}
+                  overdue={section.overdue}
+                  canManage={canActionFollowUp(followUp, profile)}
+                  onOpenInquiry={setSelectedFollowUp}
+                  onChange={loadAgenda}
+                />
+              ))}
+            </motion.section>
+          ))
+      )}
+
+      {selectedFollowUp && (
+        <InquiryDetailsModal
+          inquiry={selectedFollowUp.inquiry}
+          onClose={() => setSelectedFollowUp(null)}
+          onUpdate={loadAgenda}
+        />
+      )}
+    </div>
+  );
+}
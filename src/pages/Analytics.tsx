@@ -16,15 +16,52 @@ import {
   Legend,
 } from 'recharts';
 import { TrendingUp, Users, CheckCircle, XCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, Database } from '../lib/supabase';
+import { usePipeline } from '../contexts/PipelineContext';
+import { INQUIRY_LIST_SELECT } from '../lib/inquiries';
 import { format, startOfMonth, endOfMonth, eachMonthOfInterval, subMonths } from 'date-fns';
 
 interface MonthlyData {
   month: string;
   inquiries: number;
-  converted: number;
-  dropped: number;
-  pending: number;
+  won: number;
+  lost: number;
+  // Per-stage counts, keyed by `stage_<key>` so stage keys cannot clash with the fields above
+  [stageKey: `stage_${string}`]: number;
+}
+
+type Inquiry = Database['public']['Tables']['inquiries']['Row'] & {
+  assigned_user?: { full_name: string } | null;
+};
+
+interface LossBreakdown {
+  name: string;
+  total: number;
+  // Per-reason counts, keyed by `reason_<id>` (or `reason_none` for losses recorded without one)
+  [reasonKey: `reason_${string}`]: number;
+}
+
+interface LossReasonSeries {
+  key: `reason_${string}`;
+  label: string;
+  color: string;
+}
+
+const LOSS_REASON_COLORS = ['#ef4444', '#f97316', '#f59e0b', '#8b5cf6', '#0ea5e9', '#14b8a6', '#ec4899', '#84cc16'];
+
+function groupLosses(inquiries: Inquiry[], groupName: (inquiry: Inquiry) => string) {
+  const groups = new Map<string, LossBreakdown>();
+
+  inquiries.forEach((inquiry) => {
+    const name = groupName(inquiry);
+    const reasonKey = `reason_${inquiry.loss_reason_id ?? 'none'}` as const;
+    const group = groups.get(name) ?? { name, total: 0 };
+    group[reasonKey] = (group[reasonKey] || 0) + 1;
+    group.total += 1;
+    groups.set(name, group);
+  });
+
+  return [...groups.values()].sort((a, b) => b.total - a.total).slice(0, 10);
 }
 
 interface StatusData {
@@ -35,29 +72,37 @@ interface StatusData {
 }
 
 export function Analytics() {
+  const { stages, stageKeysOfKind, lossReasons } = usePipeline();
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [statusData, setStatusData] = useState<StatusData[]>([]);
   const [conversionRate, setConversionRate] = useState(0);
+  const [lossesByCourse, setLossesByCourse] = useState<LossBreakdown[]>([]);
+  const [lossesByCounselor, setLossesByCounselor] = useState<LossBreakdown[]>([]);
+  const [lossReasonSeries, setLossReasonSeries] = useState<LossReasonSeries[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadAnalytics();
-  }, []);
+  }, [stages, lossReasons]);
 
   async function loadAnalytics() {
     try {
-      const { data: inquiries, error } = await supabase
+      const { data, error } = await supabase
         .from('inquiries')
-        .select('*')
+        .select(INQUIRY_LIST_SELECT)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
+      const inquiries: Inquiry[] | null = data;
 
       const last6Months = eachMonthOfInterval({
         start: subMonths(new Date(), 5),
         end: new Date(),
       });
 
+      const wonKeys = stageKeysOfKind('won');
+      const lostKeys = stageKeysOfKind('lost');
+
       const monthlyStats = last6Months.map((monthDate) => {
         const monthStart = startOfMonth(monthDate);
         const monthEnd = endOfMonth(monthDate);
@@ -67,30 +112,49 @@ export function Analytics() {
           return createdAt >= monthStart && createdAt <= monthEnd;
         });
 
-        return {
+        const stats: MonthlyData = {
           month: format(monthDate, 'MMM yyyy'),
           inquiries: monthInquiries?.length || 0,
-          converted: monthInquiries?.filter((i) => i.status === 'converted').length || 0,
-          dropped: monthInquiries?.filter((i) => i.status === 'dropped').length || 0,
-          pending: monthInquiries?.filter((i) => i.status === 'pending').length || 0,
+          won: monthInquiries?.filter((i) => wonKeys.includes(i.status)).length || 0,
+          lost: monthInquiries?.filter((i) => lostKeys.includes(i.status)).length || 0,
         };
+        stages.forEach((stage) => {
+          stats[`stage_${stage.key}`] = monthInquiries?.filter((i) => i.status === stage.key).length || 0;
+        });
+        return stats;
       });
 
       setMonthlyData(monthlyStats);
 
       const totalInquiries = inquiries?.length || 0;
-      const converted = inquiries?.filter((i) => i.status === 'converted').length || 0;
-      const dropped = inquiries?.filter((i) => i.status === 'dropped').length || 0;
-      const pending = inquiries?.filter((i) => i.status === 'pending').length || 0;
+      const won = inquiries?.filter((i) => wonKeys.includes(i.status)).length || 0;
 
-      setStatusData([
-        { name: 'Converted', value: converted, color: '#10b981' },
-        { name: 'Pending', value: pending, color: '#f59e0b' },
-        { name: 'Dropped', value: dropped, color: '#ef4444' },
-      ]);
+      setStatusData(
+        stages.map((stage) => ({
+          name: stage.label,
+          value: inquiries?.filter((i) => i.status === stage.key).length || 0,
+          color: stage.color,
+        }))
+      );
 
-      const rate = totalInquiries > 0 ? (converted / totalInquiries) * 100 : 0;
+      const rate = totalInquiries > 0 ? (won / totalInquiries) * 100 : 0;
       setConversionRate(rate);
+
+      const lostInquiries = inquiries?.filter((i) => lostKeys.includes(i.status)) || [];
+      const series: LossReasonSeries[] = lossReasons
+        .filter((reason) => lostInquiries.some((i) => i.loss_reason_id === reason.id))
+        .map((reason, index) => ({
+          key: `reason_${reason.id}`,
+          label: reason.label,
+          color: LOSS_REASON_COLORS[index % LOSS_REASON_COLORS.length],
+        }));
+      if (lostInquiries.some((i) => !i.loss_reason_id)) {
+        series.push({ key: 'reason_none', label: 'Not recorded', color: '#9ca3af' });
+      }
+
+      setLossReasonSeries(series);
+      setLossesByCourse(groupLosses(lostInquiries, (i) => i.course_interested));
+      setLossesByCounselor(groupLosses(lostInquiries, (i) => i.assigned_user?.full_name ?? 'Unassigned'));
     } catch (error) {
       console.error('Error loading analytics:', error);
     } finally {
@@ -137,7 +201,7 @@ export function Analytics() {
           <div className="flex items-center justify-between mb-4">
             <CheckCircle className="w-10 h-10 opacity-80" />
             <span className="text-3xl font-bold">
-              {monthlyData.reduce((sum, m) => sum + m.converted, 0)}
+              {monthlyData.reduce((sum, m) => sum + m.won, 0)}
             </span>
           </div>
           <p className="text-green-100">Successful Conversions</p>
@@ -165,7 +229,7 @@ export function Analytics() {
           <div className="flex items-center justify-between mb-4">
             <XCircle className="w-10 h-10 opacity-80" />
             <span className="text-3xl font-bold">
-              {monthlyData.reduce((sum, m) => sum + m.dropped, 0)}
+              {monthlyData.reduce((sum, m) => sum + m.lost, 0)}
             </span>
           </div>
           <p className="text-red-100">Dropped Cases</p>
@@ -199,7 +263,7 @@ export function Analytics() {
               />
               <Line
                 type="monotone"
-                dataKey="converted"
+                dataKey="won"
                 stroke="#10b981"
                 strokeWidth={3}
                 dot={{ fill: '#10b981', r: 5 }}
@@ -255,13 +319,66 @@ export function Analytics() {
               <YAxis />
               <Tooltip />
               <Legend />
-              <Bar dataKey="inquiries" fill="#3b82f6" name="Total Inquiries" />
-              <Bar dataKey="converted" fill="#10b981" name="Converted" />
-              <Bar dataKey="pending" fill="#f59e0b" name="Pending" />
-              <Bar dataKey="dropped" fill="#ef4444" name="Dropped" />
+              {stages.map((stage) => (
+                <Bar key={stage.key} dataKey={`stage_${stage.key}`} stackId="stages" fill={stage.color} name={stage.label} />
+              ))}
             </BarChart>
           </ResponsiveContainer>
         </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.7 }}
+          className="bg-white rounded-xl shadow-md p-6 border border-gray-100"
+        >
+          <h2 className="text-xl font-heading font-bold text-gray-900 mb-6">
+            Loss Reasons by Course
+          </h2>
+          {lossesByCourse.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No lost inquiries yet</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={lossesByCourse}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {lossReasonSeries.map((reason) => (
+                  <Bar key={reason.key} dataKey={reason.key} stackId="reasons" fill={reason.color} name={reason.label} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.8 }}
+          className="bg-white rounded-xl shadow-md p-6 border border-gray-100"
+        >
+          <h2 className="text-xl font-heading font-bold text-gray-900 mb-6">
+            Loss Reasons by Counselor
+          </h2>
+          {lossesByCounselor.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No lost inquiries yet</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={lossesByCounselor}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {lossReasonSeries.map((reason) => (
+                  <Bar key={reason.key} dataKey={reason.key} stackId="reasons" fill={reason.color} name={reason.label} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </motion.div>
       </div>
     </div>
   );
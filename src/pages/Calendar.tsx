@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { usePipeline } from '../contexts/PipelineContext';
+import { addDays, addMonths, addWeeks, endOfWeek, format, isSameMonth, startOfWeek } from 'date-fns';
+import { AgendaFollowUp, buildFollowUpRangeQuery, canActionFollowUp } from '../lib/followUps';
+import { CalendarView, FollowUpCalendar, getCalendarRange } from '../components/FollowUpCalendar';
+import { InquiryDetailsModal } from '../components/InquiryDetailsModal';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const COUNSELOR_COLORS = [
+  '#2563eb',
+  '#db2777',
+  '#16a34a',
+  '#ea580c',
+  '#7c3aed',
+  '#0891b2',
+  '#ca8a04',
+  '#dc2626',
+  '#4f46e5',
+  '#65a30d',
+];
+
+const UNASSIGNED_COLOR = '#9ca3af';
+
+const VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
+export function Calendar() {
+  const { profile } = useAuth();
+  const { stages } = usePipeline();
+  const [followUps, setFollowUps] = useState<AgendaFollowUp[]>([]);
+  const [counselors, setCounselors] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [counselorFilter, setCounselorFilter] = useState('');
+  const [selectedFollowUp, setSelectedFollowUp] = useState<AgendaFollowUp | null>(null);
+
+  const latestRequest = useRef(0);
+
+  const canFilterCounselors = profile?.role === 'admin' || profile?.role === 'co_leader';
+
+  useEffect(() => {
+    if (canFilterCounselors) {
+      loadCounselors();
+    }
+  }, [canFilterCounselors]);
+
+  useEffect(() => {
+    loadFollowUps();
+  }, [profile, view, cursor, counselorFilter]);
+
+  async function loadCounselors() {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) throw error;
+      setCounselors(data || []);
+    } catch (error) {
+      console.error('Error loading counselors:', error);
+    }
+  }
+
+  async function loadFollowUps() {
+    if (!profile) return;
+    // Paging quickly through ranges can let an older response arrive last.
+    const requestId = ++latestRequest.current;
+
+    try {
+      const { data, error } = await buildFollowUpRangeQuery({
+        ...getCalendarRange(view, cursor),
+        // Employees only see follow-ups on their own inquiries, as on the inquiries page.
+        assignedTo: profile.role === 'employee' ? profile.id : counselorFilter || undefined,
+      });
+
+      if (error) throw error;
+      if (requestId !== latestRequest.current) return;
+      setFollowUps(data || []);
+    } catch (error) {
+      console.error('Error loading calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleReschedule(followUp: AgendaFollowUp, date: Date) {
+    const previous = followUps;
+    setFollowUps((current) =>
+      current.map((f) => (f.id === followUp.id ? { ...f, follow_up_date: date.toISOString() } : f))
+    );
+
+    try {
+      const { error } = await supabase
+        .from('follow_ups')
+        .update({ follow_up_date: date.toISOString() })
+        .eq('id', followUp.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error rescheduling follow-up:', error);
+      alert('Failed to reschedule follow-up. Please try again.');
+      setFollowUps(previous);
+    }
+  }
+
+  function canReschedule(followUp: AgendaFollowUp) {
+    return canActionFollowUp(followUp, profile);
+  }
+
+  function counselorColor(counselorId: string | null) {
+    if (!counselorId) return UNASSIGNED_COLOR;
+    if (counselorId === profile?.id && !canFilterCounselors) return COUNSELOR_COLORS[0];
+
+    const index = counselors.findIndex((c) => c.id === counselorId);
+    return index === -1 ? UNASSIGNED_COLOR : COUNSELOR_COLORS[index % COUNSELOR_COLORS.length];
+  }
+
+  function shiftCursor(direction: 1 | -1) {
+    setCursor((current) => {
+      if (view === 'month') return addMonths(current, direction);
+      if (view === 'week') return addWeeks(current, direction);
+      return addDays(current, direction);
+    });
+  }
+
+  function openDay(day: Date) {
+    setCursor(day);
+    setView('day');
+  }
+
+  function formatTitle() {
+    if (view === 'month') return format(cursor, 'MMMM yyyy');
+    if (view === 'day') return format(cursor, 'EEEE, MMMM d, yyyy');
+
+    const weekStart = startOfWeek(cursor);
+    const weekEnd = endOfWeek(cursor);
+    return isSameMonth(weekStart, weekEnd)
+      ? `${format(weekStart, 'MMMM d')} – ${format(weekEnd, 'd, yyyy')}`
+      : `${format(weekStart, 'MMM d')} – ${format(weekEnd, 'MMM d, yyyy')}`;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const legendCounselors = counselorFilter
+    ? counselors.filter((c) => c.id === counselorFilter)
+    : counselors.filter((c) => followUps.some((f) => f.inquiry.assigned_to === c.id));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-gray-900">Calendar</h1>
+          <p className="text-gray-600 mt-2">Follow-ups and campus visits by date. Drag an event to reschedule it.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {canFilterCounselors && (
+            <select
+              value={counselorFilter}
+              onChange={(e) => setCounselorFilter(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            >
+              <option value="">All counselors</option>
+              {counselors.map((counselor) => (
+                <option key={counselor.id} value={counselor.id}>
+                  {counselor.full_name}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex bg-white border border-gray-300 rounded-lg p-1">
+            {VIEWS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                className={`px-3 py-2 rounded-md transition ${
+                  view === value ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => shiftCursor(-1)}
+            className="p-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition"
+            title="Previous"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setCursor(new Date())}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => shiftCursor(1)}
+            className="p-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition"
+            title="Next"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <h2 className="text-xl font-heading font-bold text-gray-900 ml-2">{formatTitle()}</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-600">
+          {stages.map((stage) => (
+            <span key={stage.key} className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: stage.color }} />
+              {stage.label}
+            </span>
+          ))}
+          {legendCounselors.map((counselor) => (
+            <span key={counselor.id} className="flex items-center gap-1.5">
+              <span className="w-1 h-3 rounded-sm" style={{ backgroundColor: counselorColor(counselor.id) }} />
+              {counselor.full_name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <FollowUpCalendar
+        view={view}
+        cursor={cursor}
+        followUps={followUps}
+        counselorColor={counselorColor}
+        canReschedule={canReschedule}
+        onEventClick={setSelectedFollowUp}
+        onReschedule={handleReschedule}
+        onDayClick={openDay}
+      />
+
+      {selectedFollowUp && (
+        <InquiryDetailsModal
+          inquiry={selectedFollowUp.inquiry}
+          onClose={() => setSelectedFollowUp(null)}
+          onUpdate={loadFollowUps}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,19 @@ import { Plus, Search, Shield } from 'lucide-react';
 import { supabase, Database } from '../lib/supabase';
 import { format } from 'date-fns';
 import { AddUserModal } from '../components/AddUserModal';
+import { InvitationStatusBadge } from '../components/InvitationStatusBadge';
+import {
+  changeUserRole,
+  deleteUser,
+  resendInvite,
+  revokeInvite,
+  userAdminErrorMessage,
+  UserInvitation,
+} from '../lib/userAdmin';
 
-type Profile = Database['public']['Tables']['profiles']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'] & {
+  invitation: UserInvitation | null;
+};
 
 export function CoLeaders() {
   const [coLeaders, setCoLeaders] = useState<Profile[]>([]);
@@ -13,6 +24,7 @@ export function CoLeaders() {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [error, setError] = useState('');
 
   useEffect(() => {
     loadCoLeaders();
@@ -26,7 +38,7 @@ export function CoLeaders() {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, invitation:user_invitations!user_invitations_user_id_fkey(sent_at, expires_at, accepted_at)')
         .eq('role', 'co_leader')
         .order('created_at', { ascending: false });
 
@@ -58,17 +70,14 @@ export function CoLeaders() {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ role: 'employee' })
-        .eq('id', coLeader.id);
+    setError('');
 
-      if (error) throw error;
+    try {
+      await changeUserRole(coLeader.id, 'employee');
       loadCoLeaders();
     } catch (error) {
       console.error('Error demoting co-leader:', error);
-      alert('Failed to demote co-leader. Please try again.');
+      setError(userAdminErrorMessage(error, 'Failed to demote co-leader. Please try again.'));
     }
   }
 
@@ -77,14 +86,42 @@ export function CoLeaders() {
       return;
     }
 
-    try {
-      const { error } = await supabase.auth.admin.deleteUser(coLeader.id);
+    setError('');
 
-      if (error) throw error;
+    try {
+      await deleteUser(coLeader.id);
       loadCoLeaders();
     } catch (error) {
       console.error('Error removing co-leader:', error);
-      alert('Failed to remove co-leader. Please try again.');
+      setError(userAdminErrorMessage(error, 'Failed to remove co-leader. Please try again.'));
+    }
+  }
+
+  async function handleResendInvite(coLeader: Profile) {
+    setError('');
+
+    try {
+      await resendInvite(coLeader.id);
+      loadCoLeaders();
+    } catch (error) {
+      console.error('Error resending invite:', error);
+      setError(userAdminErrorMessage(error, 'Failed to resend the invite. Please try again.'));
+    }
+  }
+
+  async function handleRevokeInvite(coLeader: Profile) {
+    if (!window.confirm(`Revoke the invite for ${coLeader.email}? Their invite link will stop working.`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      await revokeInvite(coLeader.id);
+      loadCoLeaders();
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      setError(userAdminErrorMessage(error, 'Failed to revoke the invite. Please try again.'));
     }
   }
 
@@ -110,7 +147,7 @@ export function CoLeaders() {
           className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
         >
           <Plus className="w-5 h-5" />
-          Add New Co-Leader
+          Invite Co-Leader
         </motion.button>
       </div>
 
@@ -127,6 +164,10 @@ export function CoLeaders() {
         </div>
       </div>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
       {filteredCoLeaders.length === 0 ? (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
@@ -135,7 +176,7 @@ export function CoLeaders() {
         >
           <Shield className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-heading font-semibold text-gray-900 mb-2">No co-leaders found</h3>
-          <p className="text-gray-600">Start by adding your first co-leader.</p>
+          <p className="text-gray-600">Start by inviting your first co-leader.</p>
         </motion.div>
       ) : (
         <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden">
@@ -181,33 +222,59 @@ export function CoLeaders() {
                         <div className="text-gray-600">{coLeader.email}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span
-                          className={`px-3 py-1 rounded-full text-xs font-medium ${
-                            coLeader.is_active
-                              ? 'bg-green-100 text-green-700'
-                              : 'bg-red-100 text-red-700'
-                          }`}
-                        >
-                          {coLeader.is_active ? 'Active' : 'Inactive'}
-                        </span>
+                        {coLeader.invitation && !coLeader.invitation.accepted_at ? (
+                          <InvitationStatusBadge invitation={coLeader.invitation} />
+                        ) : (
+                          <>
+                            <span
+                              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                coLeader.is_active
+                                  ? 'bg-green-100 text-green-700'
+                                  : 'bg-red-100 text-red-700'
+                              }`}
+                            >
+                              {coLeader.is_active ? 'Active' : 'Inactive'}
+                            </span>
+                            {coLeader.invitation && <InvitationStatusBadge invitation={coLeader.invitation} />}
+                          </>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-600">
                         {format(new Date(coLeader.created_at), 'MMM d, yyyy')}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => handleDemoteToEmployee(coLeader)}
-                            className="px-3 py-1 bg-yellow-50 text-yellow-700 rounded-lg text-sm font-medium hover:bg-yellow-100 transition"
-                          >
-                            Demote to Employee
-                          </button>
-                          <button
-                            onClick={() => handleRemoveCoLeader(coLeader)}
-                            className="px-3 py-1 bg-red-50 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100 transition"
-                          >
-                            Remove
-                          </button>
+                          {coLeader.invitation && !coLeader.invitation.accepted_at ? (
+                            <>
+                              <button
+                                onClick={() => handleResendInvite(coLeader)}
+                                className="px-3 py-1 bg-primary-50 text-primary-700 rounded-lg text-sm font-medium hover:bg-primary-100 transition"
+                              >
+                                Resend Invite
+                              </button>
+                              <button
+                                onClick={() => handleRevokeInvite(coLeader)}
+                                className="px-3 py-1 bg-red-50 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100 transition"
+                              >
+                                Revoke
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => handleDemoteToEmployee(coLeader)}
+                                className="px-3 py-1 bg-yellow-50 text-yellow-700 rounded-lg text-sm font-medium hover:bg-yellow-100 transition"
+                              >
+                                Demote to Employee
+                              </button>
+                              <button
+                                onClick={() => handleRemoveCoLeader(coLeader)}
+                                className="px-3 py-1 bg-red-50 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100 transition"
+                              >
+                                Remove
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </motion.tr>
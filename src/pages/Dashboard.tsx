@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
   TrendingUp,
@@ -21,13 +21,19 @@ import {
 } from 'recharts';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { format, startOfMonth, endOfMonth, eachMonthOfInterval, subMonths } from 'date-fns';
+import { usePipeline } from '../contexts/PipelineContext';
+import { format, startOfMonth, endOfMonth, eachMonthOfInterval, subMonths, endOfToday } from 'date-fns';
+import { buildScheduledFollowUpQuery } from '../lib/followUps';
+import { subscribeToRowChanges } from '../lib/realtime';
+
+const REALTIME_RELOAD_DELAY_MS = 1000;
 
 interface KPIData {
   total: number;
-  converted: number;
-  dropped: number;
-  pending: number;
+  won: number;
+  lost: number;
+  open: number;
+  followUpsDue: number;
 }
 
 interface MonthlyData {
@@ -38,18 +44,44 @@ interface MonthlyData {
 
 export function Dashboard() {
   const { profile } = useAuth();
+  const { stages, stageKeysOfKind } = usePipeline();
   const [kpiData, setKpiData] = useState<KPIData>({
     total: 0,
-    converted: 0,
-    dropped: 0,
-    pending: 0,
+    won: 0,
+    lost: 0,
+    open: 0,
+    followUpsDue: 0,
   });
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [loading, setLoading] = useState(true);
 
+  const reloadRef = useRef(loadDashboardData);
+  reloadRef.current = loadDashboardData;
+
   useEffect(() => {
     loadDashboardData();
-  }, [profile]);
+  }, [profile, stages]);
+
+  // Recount whenever inquiries or follow-ups change elsewhere. Bursts such as
+  // an import arrive as many events, so reloads are debounced.
+  useEffect(() => {
+    if (!profile) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const scheduleReload = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => reloadRef.current(), REALTIME_RELOAD_DELAY_MS);
+    };
+
+    const unsubscribeInquiries = subscribeToRowChanges('inquiries', scheduleReload);
+    const unsubscribeFollowUps = subscribeToRowChanges('follow_ups', scheduleReload);
+
+    return () => {
+      clearTimeout(timeout);
+      unsubscribeInquiries();
+      unsubscribeFollowUps();
+    };
+  }, [profile?.id]);
 
   async function loadDashboardData() {
     try {
@@ -63,12 +95,28 @@ export function Dashboard() {
 
       if (error) throw error;
 
+      // Scheduled follow-ups due by the end of today, overdue ones included.
+      const { count: followUpsDue, error: followUpsError } = await buildScheduledFollowUpQuery(
+        {
+          until: endOfToday(),
+          assignedTo: profile?.role === 'employee' ? profile.id : undefined,
+        },
+        'id, inquiry:inquiries!inner(assigned_to)',
+        { count: 'exact', head: true }
+      );
+
+      if (followUpsError) throw followUpsError;
+
+      const wonKeys = stageKeysOfKind('won');
+      const lostKeys = stageKeysOfKind('lost');
+      const openKeys = stageKeysOfKind('open');
+
       const total = inquiries?.length || 0;
-      const converted = inquiries?.filter((i) => i.status === 'converted').length || 0;
-      const dropped = inquiries?.filter((i) => i.status === 'dropped').length || 0;
-      const pending = inquiries?.filter((i) => i.status === 'pending').length || 0;
+      const won = inquiries?.filter((i) => wonKeys.includes(i.status)).length || 0;
+      const lost = inquiries?.filter((i) => lostKeys.includes(i.status)).length || 0;
+      const open = inquiries?.filter((i) => openKeys.includes(i.status)).length || 0;
 
-      setKpiData({ total, converted, dropped, pending });
+      setKpiData({ total, won, lost, open, followUpsDue: followUpsDue || 0 });
 
       const last6Months = eachMonthOfInterval({
         start: subMonths(new Date(), 5),
@@ -87,7 +135,7 @@ export function Dashboard() {
         return {
           month: format(monthDate, 'MMM yyyy'),
           inquiries: monthInquiries?.length || 0,
-          converted: monthInquiries?.filter((i) => i.status === 'converted').length || 0,
+          converted: monthInquiries?.filter((i) => wonKeys.includes(i.status)).length || 0,
         };
       });
 
@@ -110,7 +158,7 @@ export function Dashboard() {
     },
     {
       title: 'Successful Conversions',
-      value: kpiData.converted,
+      value: kpiData.won,
       icon: CheckCircle,
       gradient: 'from-green-500 to-green-600',
       bgColor: 'bg-green-50',
@@ -118,7 +166,7 @@ export function Dashboard() {
     },
     {
       title: 'Pending Follow-ups',
-      value: kpiData.pending,
+      value: kpiData.followUpsDue,
       icon: Clock,
       gradient: 'from-yellow-500 to-yellow-600',
       bgColor: 'bg-yellow-50',
@@ -126,7 +174,7 @@ export function Dashboard() {
     },
     {
       title: 'Dropped Cases',
-      value: kpiData.dropped,
+      value: kpiData.lost,
       icon: XCircle,
       gradient: 'from-red-500 to-red-600',
       bgColor: 'bg-red-50',
@@ -246,7 +294,7 @@ export function Dashboard() {
             <div>
               <h2 className="text-2xl font-heading font-bold">Your Performance</h2>
               <p className="text-primary-100 mt-1">
-                You have {kpiData.pending} pending follow-ups and {kpiData.converted} successful
+                You have {kpiData.open} open inquiries and {kpiData.won} successful
                 conversions
               </p>
             </div>
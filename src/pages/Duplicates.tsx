@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CopyCheck, Merge, Phone, Mail } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import { format } from 'date-fns';
+import { INQUIRY_LIST_SELECT } from '../lib/inquiries';
+import { StatusBadge } from '../components/StatusBadge';
+
+type Inquiry = Database['public']['Tables']['inquiries']['Row'] & {
+  assigned_user?: { full_name: string } | null;
+  follow_ups?: { count: number }[];
+};
+
+interface DuplicateGroup {
+  key: string;
+  matchType: 'phone' | 'email';
+  matchValue: string;
+  inquiries: Inquiry[];
+}
+
+interface GroupSelection {
+  primaryId: string;
+  mergeIds: string[];
+}
+
+function followUpCount(inquiry: Inquiry) {
+  return inquiry.follow_ups?.[0]?.count ?? 0;
+}
+
+export function Duplicates() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [selections, setSelections] = useState<Record<string, GroupSelection>>({});
+  const [loading, setLoading] = useState(true);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, []);
+
+  async function loadDuplicates() {
+    try {
+      const { data: rawGroups, error } = await supabase.rpc('find_duplicate_inquiry_groups');
+      if (error) throw error;
+
+      const ids = [...new Set<string>((rawGroups || []).flatMap((g: { inquiry_ids: string[] }) => g.inquiry_ids))];
+      const inquiriesById = new Map<string, Inquiry>();
+
+      for (let i = 0; i < ids.length; i += 200) {
+        const { data, error: inquiriesError } = await supabase
+          .from('inquiries')
+          .select(`${INQUIRY_LIST_SELECT}, follow_ups(count)` as const)
+          .in('id', ids.slice(i, i + 200));
+
+        if (inquiriesError) throw inquiriesError;
+        (data || []).forEach((inquiry: Inquiry) => inquiriesById.set(inquiry.id, inquiry));
+      }
+
+      // A pair matching on both phone and email would otherwise be listed twice.
+      const seen = new Set<string>();
+      const nextGroups: DuplicateGroup[] = [];
+      (rawGroups || []).forEach((g: { match_type: 'phone' | 'email'; match_value: string; inquiry_ids: string[] }) => {
+        const key = [...g.inquiry_ids].sort().join(',');
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        const groupInquiries = g.inquiry_ids
+          .map((id) => inquiriesById.get(id))
+          .filter((inquiry): inquiry is Inquiry => inquiry !== undefined);
+        if (groupInquiries.length > 1) {
+          nextGroups.push({ key, matchType: g.match_type, matchValue: g.match_value, inquiries: groupInquiries });
+        }
+      });
+
+      const nextSelections: Record<string, GroupSelection> = {};
+      nextGroups.forEach((group) => {
+        // Default to keeping the record with the most follow-ups, oldest first on ties.
+        const primary = [...group.inquiries].sort(
+          (a, b) =>
+            followUpCount(b) - followUpCount(a) ||
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        )[0];
+        nextSelections[group.key] = {
+          primaryId: primary.id,
+          mergeIds: group.inquiries.filter((i) => i.id !== primary.id).map((i) => i.id),
+        };
+      });
+
+      setGroups(nextGroups);
+      setSelections(nextSelections);
+    } catch (error) {
+      console.error('Error loading duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function setPrimary(group: DuplicateGroup, primaryId: string) {
+    setSelections({
+      ...selections,
+      [group.key]: {
+        primaryId,
+        mergeIds: group.inquiries.filter((i) => i.id !== primaryId).map((i) => i.id),
+      },
+    });
+  }
+
+  function toggleMerge(group: DuplicateGroup, inquiryId: string) {
+    const selection = selections[group.key];
+    const mergeIds = selection.mergeIds.includes(inquiryId)
+      ? selection.mergeIds.filter((id) => id !== inquiryId)
+      : [...selection.mergeIds, inquiryId];
+    setSelections({ ...selections, [group.key]: { ...selection, mergeIds } });
+  }
+
+  async function handleMerge(group: DuplicateGroup) {
+    const selection = selections[group.key];
+    const primary = group.inquiries.find((i) => i.id === selection.primaryId);
+    if (!primary || selection.mergeIds.length === 0) return;
+
+    if (
+      !window.confirm(
+        `Merge ${selection.mergeIds.length} inquiry record(s) into ${primary.student_name}? ` +
+          'Their follow-ups will be moved and the duplicates deleted.'
+      )
+    ) {
+      return;
+    }
+
+    setMergingKey(group.key);
+
+    try {
+      const { error } = await supabase.rpc('merge_inquiries', {
+        primary_id: selection.primaryId,
+        duplicate_ids: selection.mergeIds,
+      });
+
+      if (error) throw error;
+      await loadDuplicates();
+    } catch (error) {
+      console.error('Error merging inquiries:', error);
+      alert('Failed to merge inquiries. Please try again.');
+    } finally {
+      setMergingKey(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-gray-900">Possible Duplicates</h1>
+        <p className="text-gray-600 mt-2">
+          {groups.length} {groups.length === 1 ? 'group' : 'groups'} of inquiries sharing a phone number or email
+        </p>
+      </div>
+
+      {groups.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="bg-white rounded-xl shadow-md p-12 text-center border border-gray-100"
+        >
+          <CopyCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-heading font-semibold text-gray-900 mb-2">No duplicates found</h3>
+          <p className="text-gray-600">Every inquiry has a unique phone number and email.</p>
+        </motion.div>
+      ) : (
+        <AnimatePresence>
+          {groups.map((group, index) => {
+            const selection = selections[group.key];
+
+            return (
+              <motion.div
+                key={group.key}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+                transition={{ delay: index * 0.05 }}
+                className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden"
+              >
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <div className="flex items-center gap-2 text-gray-700">
+                    {group.matchType === 'phone' ? <Phone className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+                    <span className="font-medium">
+                      Same {group.matchType}: {group.matchValue}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => handleMerge(group)}
+                    disabled={mergingKey !== null || selection.mergeIds.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg font-medium hover:bg-primary-700 transition disabled:opacity-50"
+                  >
+                    <Merge className="w-4 h-4" />
+                    {mergingKey === group.key ? 'Merging...' : 'Merge'}
+                  </button>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="border-b border-gray-200">
+                      <tr>
+                        {['Keep', 'Merge', 'Student', 'Contact', 'Course', 'Status', 'Assigned', 'Follow-ups', 'Created'].map(
+                          (heading) => (
+                            <th
+                              key={heading}
+                              className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                            >
+                              {heading}
+                            </th>
+                          )
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {group.inquiries.map((inquiry) => {
+                        const isPrimary = selection.primaryId === inquiry.id;
+                        return (
+                          <tr key={inquiry.id} className={isPrimary ? 'bg-primary-50' : 'hover:bg-gray-50 transition'}>
+                            <td className="px-4 py-3">
+                              <input
+                                type="radio"
+                                name={`primary-${group.key}`}
+                                checked={isPrimary}
+                                onChange={() => setPrimary(group, inquiry.id)}
+                                className="text-primary-600 focus:ring-primary-500"
+                              />
+                            </td>
+                            <td className="px-4 py-3">
+                              <input
+                                type="checkbox"
+                                disabled={isPrimary}
+                                checked={selection.mergeIds.includes(inquiry.id)}
+                                onChange={() => toggleMerge(group, inquiry.id)}
+                                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 disabled:opacity-30"
+                              />
+                            </td>
+                            <td className="px-4 py-3 font-medium text-gray-900">{inquiry.student_name}</td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              <div>{inquiry.contact_number}</div>
+                              {inquiry.email && <div className="text-gray-500">{inquiry.email}</div>}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">{inquiry.course_interested}</td>
+                            <td className="px-4 py-3">
+                              <StatusBadge status={inquiry.status} />
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {inquiry.assigned_user?.full_name ?? '—'}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">{followUpCount(inquiry)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                              {format(new Date(inquiry.created_at), 'MMM d, yyyy')}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      )}
+    </div>
+  );
+}
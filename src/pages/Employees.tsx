@@ -4,8 +4,18 @@ import { Plus, Search, UserCheck } from 'lucide-react';
 import { supabase, Database } from '../lib/supabase';
 import { format } from 'date-fns';
 import { AddUserModal } from '../components/AddUserModal';
+import { InvitationStatusBadge } from '../components/InvitationStatusBadge';
+import {
+  deleteUser,
+  resendInvite,
+  revokeInvite,
+  userAdminErrorMessage,
+  UserInvitation,
+} from '../lib/userAdmin';
 
-type Profile = Database['public']['Tables']['profiles']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'] & {
+  invitation: UserInvitation | null;
+};
 
 export function Employees() {
   const [employees, setEmployees] = useState<Profile[]>([]);
@@ -13,6 +23,7 @@ export function Employees() {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [error, setError] = useState('');
 
   useEffect(() => {
     loadEmployees();
@@ -26,7 +37,7 @@ export function Employees() {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, invitation:user_invitations!user_invitations_user_id_fkey(sent_at, expires_at, accepted_at)')
         .eq('role', 'employee')
         .order('created_at', { ascending: false });
 
@@ -73,14 +84,42 @@ export function Employees() {
       return;
     }
 
-    try {
-      const { error } = await supabase.auth.admin.deleteUser(employee.id);
+    setError('');
 
-      if (error) throw error;
+    try {
+      await deleteUser(employee.id);
       loadEmployees();
     } catch (error) {
       console.error('Error removing employee:', error);
-      alert('Failed to remove employee. Please try again.');
+      setError(userAdminErrorMessage(error, 'Failed to remove employee. Please try again.'));
+    }
+  }
+
+  async function handleResendInvite(employee: Profile) {
+    setError('');
+
+    try {
+      await resendInvite(employee.id);
+      loadEmployees();
+    } catch (error) {
+      console.error('Error resending invite:', error);
+      setError(userAdminErrorMessage(error, 'Failed to resend the invite. Please try again.'));
+    }
+  }
+
+  async function handleRevokeInvite(employee: Profile) {
+    if (!window.confirm(`Revoke the invite for ${employee.email}? Their invite link will stop working.`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      await revokeInvite(employee.id);
+      loadEmployees();
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      setError(userAdminErrorMessage(error, 'Failed to revoke the invite. Please try again.'));
     }
   }
 
@@ -106,7 +145,7 @@ export function Employees() {
           className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
         >
           <Plus className="w-5 h-5" />
-          Add New Employee
+          Invite Employee
         </motion.button>
       </div>
 
@@ -123,6 +162,10 @@ export function Employees() {
         </div>
       </div>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
       {filteredEmployees.length === 0 ? (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
@@ -131,7 +174,7 @@ export function Employees() {
         >
           <UserCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-heading font-semibold text-gray-900 mb-2">No employees found</h3>
-          <p className="text-gray-600">Start by adding your first employee.</p>
+          <p className="text-gray-600">Start by inviting your first employee.</p>
         </motion.div>
       ) : (
         <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden">
@@ -174,37 +217,68 @@ export function Employees() {
                         <div className="text-gray-600">{employee.email}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span
-                          className={`px-3 py-1 rounded-full text-xs font-medium ${
-                            employee.is_active
-                              ? 'bg-green-100 text-green-700'
-                              : 'bg-red-100 text-red-700'
-                          }`}
-                        >
-                          {employee.is_active ? 'Active' : 'Inactive'}
-                        </span>
+                        {employee.invitation && !employee.invitation.accepted_at ? (
+                          <InvitationStatusBadge invitation={employee.invitation} />
+                        ) : (
+                          <>
+                            <span
+                              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                employee.is_active
+                                  ? 'bg-green-100 text-green-700'
+                                  : 'bg-red-100 text-red-700'
+                              }`}
+                            >
+                              {employee.is_active ? 'Active' : 'Inactive'}
+                            </span>
+                            {employee.invitation && <InvitationStatusBadge invitation={employee.invitation} />}
+                          </>
+                        )}
+                        {employee.on_leave && (
+                          <span className="ml-2 px-3 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                            On leave
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-600">
                         {format(new Date(employee.created_at), 'MMM d, yyyy')}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => toggleActiveStatus(employee)}
-                            className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
-                              employee.is_active
-                                ? 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100'
-                                : 'bg-green-50 text-green-700 hover:bg-green-100'
-                            }`}
-                          >
-                            {employee.is_active ? 'Deactivate' : 'Activate'}
-                          </button>
-                          <button
-                            onClick={() => handleRemoveEmployee(employee)}
-                            className="px-3 py-1 bg-red-50 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100 transition"
-                          >
-                            Remove
-                          </button>
+                          {employee.invitation && !employee.invitation.accepted_at ? (
+                            <>
+                              <button
+                                onClick={() => handleResendInvite(employee)}
+                                className="px-3 py-1 bg-primary-50 text-primary-700 rounded-lg text-sm font-medium hover:bg-primary-100 transition"
+                              >
+                                Resend Invite
+                              </button>
+                              <button
+                                onClick={() => handleRevokeInvite(employee)}
+                                className="px-3 py-1 bg-red-50 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100 transition"
+                              >
+                                Revoke
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => toggleActiveStatus(employee)}
+                                className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+                                  employee.is_active
+                                    ? 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100'
+                                    : 'bg-green-50 text-green-700 hover:bg-green-100'
+                                }`}
+                              >
+                                {employee.is_active ? 'Deactivate' : 'Activate'}
+                              </button>
+                              <button
+                                onClick={() => handleRemoveEmployee(employee)}
+                                className="px-3 py-1 bg-red-50 text-red-700 rounded-lg text-sm font-medium hover:bg-red-100 transition"
+                              >
+                                Remove
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </motion.tr>
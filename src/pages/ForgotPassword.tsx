@@ -0,0 +1,99 @@
+import { useState, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { KeyRound, AlertCircle, MailCheck } from 'lucide-react';
+import { AuthLayout } from '../components/AuthLayout';
+import { passwordErrorMessage, sendPasswordResetEmail } from '../lib/password';
+
+export function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      // Supabase succeeds whether or not the account exists, and the message
+      // is worded to match, so the form cannot be used to probe for emails.
+      await sendPasswordResetEmail(email);
+      setSent(true);
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+      setError(passwordErrorMessage(error, 'Failed to send the reset email. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <AuthLayout icon={KeyRound} title="Forgot Password" subtitle="We'll email you a link to choose a new one">
+      {sent ? (
+        <div className="space-y-6">
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-green-700">
+            <MailCheck className="w-5 h-5 flex-shrink-0" />
+            <span className="text-sm">
+              If an account exists for {email}, a reset link is on its way.
+            </span>
+          </div>
+          <Link
+            to="/login"
+            className="block text-center text-sm font-medium text-primary-600 hover:text-primary-700 transition"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      ) : (
+        <>
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+            >
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span className="text-sm">{error}</span>
+            </motion.div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email Address
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                placeholder="you@example.com"
+              />
+            </div>
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              type="submit"
+              disabled={loading}
+              className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Sending...' : 'Send Reset Link'}
+            </motion.button>
+
+            <Link
+              to="/login"
+              className="block text-center text-sm font-medium text-primary-600 hover:text-primary-700 transition"
+            >
+              Back to sign in
+            </Link>
+          </form>
+        </>
+      )}
+    </AuthLayout>
+  );
+}
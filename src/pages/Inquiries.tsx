@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus,
@@ -9,56 +10,149 @@ import {
   Mail,
   BookOpen,
   Calendar,
+  LayoutGrid,
+  Kanban,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Upload,
+  Download,
+  UserCheck,
+  ArrowRightLeft,
+  Tags,
+  Trash2,
+  Tag,
 } from 'lucide-react';
 import { supabase, Database } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { usePipeline } from '../contexts/PipelineContext';
 import { format } from 'date-fns';
 import { AddInquiryModal } from '../components/AddInquiryModal';
 import { AssignInquiryModal } from '../components/AssignInquiryModal';
 import { InquiryDetailsModal } from '../components/InquiryDetailsModal';
+import { InquiryBoard } from '../components/InquiryBoard';
+import { StatusBadge } from '../components/StatusBadge';
+import { UpdatedBadge } from '../components/UpdatedBadge';
+import { ImportInquiriesModal } from '../components/ImportInquiriesModal';
+import { LossReasonModal } from '../components/LossReasonModal';
+import { BulkActionModal } from '../components/BulkActionModal';
+import { fetchInquiriesForExport, downloadInquiries, ExportFormat } from '../lib/export';
+import { RowChange, subscribeToRowChanges } from '../lib/realtime';
+import { BulkAction, BulkTarget, fetchMatchingBulkTargets } from '../lib/bulkActions';
+import {
+  buildInquiryQuery,
+  parseInquiryFilters,
+  toInquirySearchParams,
+  InquiryFilters,
+  BOARD_COLUMN_SIZE,
+  INQUIRY_LIST_SELECT,
+  INQUIRY_PAGE_SIZE,
+  INQUIRY_SORT_OPTIONS,
+} from '../lib/inquiries';
 
 type Inquiry = Database['public']['Tables']['inquiries']['Row'] & {
   assigned_user?: { full_name: string } | null;
 };
 
+type InquiryView = 'grid' | 'board';
+
+const VIEW_STORAGE_KEY = 'inquiries.view';
+
+function moveColumnCount(counts: Record<string, number>, from: string, to: string) {
+  return { ...counts, [from]: Math.max(0, (counts[from] ?? 0) - 1), [to]: (counts[to] ?? 0) + 1 };
+}
+
+function withoutId(ids: Set<string>, id: string) {
+  if (!ids.has(id)) return ids;
+  const next = new Set(ids);
+  next.delete(id);
+  return next;
+}
+
 export function Inquiries() {
   const { profile } = useAuth();
+  const { stages, loading: stagesLoading, getStage } = usePipeline();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseInquiryFilters(searchParams);
   const [inquiries, setInquiries] = useState<Inquiry[]>([]);
-  const [filteredInquiries, setFilteredInquiries] = useState<Inquiry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [columnCounts, setColumnCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'converted' | 'dropped'>('all');
+  const [searchTerm, setSearchTerm] = useState(filters.search);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [showAssignModal, setShowAssignModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [assignTargets, setAssignTargets] = useState<BulkTarget[] | null>(null);
+  const [bulkAction, setBulkAction] = useState<{
+    action: Exclude<BulkAction, 'assign'>;
+    targets: BulkTarget[];
+  } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [resolvingSelection, setResolvingSelection] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null);
+  const [pendingLoss, setPendingLoss] = useState<{ inquiry: Inquiry; status: string } | null>(null);
+  const [changedIds, setChangedIds] = useState<Set<string>>(new Set());
+  const [view, setView] = useState<InquiryView>(
+    () => (localStorage.getItem(VIEW_STORAGE_KEY) === 'board' ? 'board' : 'grid')
+  );
+
+  const latestRequest = useRef(0);
+  const applyChangeRef = useRef(applyInquiryChange);
+  applyChangeRef.current = applyInquiryChange;
 
   useEffect(() => {
     loadInquiries();
-  }, [profile]);
+  }, [profile, searchParams, view, stages]);
+
+  // Selection is per page, so paging or filtering starts a fresh one.
+  useEffect(() => {
+    clearSelection();
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (!profile) return;
+    return subscribeToRowChanges('inquiries', (change) => applyChangeRef.current(change));
+  }, [profile?.id]);
+
+  // Calendar feeds and other deep links open an inquiry with `?inquiry=<id>`.
+  const linkedInquiryId = searchParams.get('inquiry');
+
+  useEffect(() => {
+    if (linkedInquiryId) {
+      openLinkedInquiry(linkedInquiryId);
+    }
+  }, [linkedInquiryId]);
+
+  useEffect(() => {
+    setSearchTerm(filters.search);
+  }, [filters.search]);
 
   useEffect(() => {
-    filterInquiries();
-  }, [searchTerm, statusFilter, inquiries]);
+    if (searchTerm === filters.search) return;
+    const timeout = setTimeout(() => updateFilters({ search: searchTerm }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
   async function loadInquiries() {
-    try {
-      let query = supabase
-        .from('inquiries')
-        .select(`
-          *,
-          assigned_user:profiles!inquiries_assigned_to_fkey(full_name)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (profile?.role === 'employee') {
-        query = query.eq('assigned_to', profile.id);
-      }
+    if (view === 'board') {
+      loadBoard();
+      return;
+    }
+
+    const requestId = ++latestRequest.current;
+    const from = (filters.page - 1) * INQUIRY_PAGE_SIZE;
 
-      const { data, error } = await query;
+    try {
+      const { data, count, error } = await buildInquiryQuery(filters, profile, INQUIRY_LIST_SELECT, { count: 'exact' })
+        .range(from, from + INQUIRY_PAGE_SIZE - 1);
 
       if (error) throw error;
+      if (requestId !== latestRequest.current) return;
       setInquiries(data || []);
+      setTotalCount(count || 0);
     } catch (error) {
       console.error('Error loading inquiries:', error);
     } finally {
@@ -66,33 +160,215 @@ export function Inquiries() {
     }
   }
 
-  function filterInquiries() {
-    let filtered = inquiries;
+  /**
+   * Loads the board one stage at a time, so each column shows its own first
+   * cards and its full count from the server rather than a slice of the
+   * grid's page.
+   */
+  async function loadBoard() {
+    if (stagesLoading) return;
+
+    const requestId = ++latestRequest.current;
+    const boardStages = stages.filter((stage) => filters.status === 'all' || stage.key === filters.status);
+
+    try {
+      const columns = await Promise.all(
+        boardStages.map(async (stage) => {
+          const { data, count, error } = await buildInquiryQuery(
+            { ...filters, status: stage.key },
+            profile,
+            INQUIRY_LIST_SELECT,
+            { count: 'exact' }
+          ).range(0, BOARD_COLUMN_SIZE - 1);
 
-    if (searchTerm) {
-      filtered = filtered.filter(
-        (inquiry) =>
-          inquiry.student_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          inquiry.contact_number.includes(searchTerm) ||
-          inquiry.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          inquiry.course_interested.toLowerCase().includes(searchTerm.toLowerCase())
+          if (error) throw error;
+          const rows: Inquiry[] = data || [];
+          return { status: stage.key, rows, count: count || 0 };
+        })
       );
+
+      if (requestId !== latestRequest.current) return;
+      setInquiries(columns.flatMap((column) => column.rows));
+      setColumnCounts(Object.fromEntries(columns.map((column) => [column.status, column.count])));
+      setTotalCount(columns.reduce((total, column) => total + column.count, 0));
+    } catch (error) {
+      console.error('Error loading inquiry board:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMoreColumn(status: string) {
+    // A reload started meanwhile replaces the board, so these rows are dropped.
+    const requestId = latestRequest.current;
+    const loaded = inquiries.filter((inquiry) => inquiry.status === status).length;
+
+    try {
+      const { data, error } = await buildInquiryQuery({ ...filters, status }, profile, INQUIRY_LIST_SELECT)
+        .range(loaded, loaded + BOARD_COLUMN_SIZE - 1);
+
+      if (error) throw error;
+      if (requestId !== latestRequest.current) return;
+      const rows: Inquiry[] = data || [];
+      setInquiries((current) => [
+        ...current,
+        ...rows.filter((row) => !current.some((inquiry) => inquiry.id === row.id)),
+      ]);
+    } catch (error) {
+      console.error('Error loading more inquiries:', error);
+    }
+  }
+
+  /**
+   * Merges a change made elsewhere into the current page without reloading
+   * it. The changed row is re-read through the current filters, which both
+   * tells us whether it still belongs on this page and picks up the joined
+   * counselor name that Realtime payloads do not carry.
+   */
+  async function applyInquiryChange(change: RowChange<'inquiries'>) {
+    const id = change.new?.id ?? change.old.id;
+    if (!id) return;
+
+    // The user's own edits are already on screen and need no highlight.
+    const changedElsewhere = change.new !== null && change.new.updated_by !== profile?.id;
+
+    // A stage move changes two columns and their counts, so the board reloads.
+    if (view === 'board') {
+      if (changedElsewhere) {
+        setChangedIds((current) => new Set(current).add(id));
+      }
+      loadBoard();
+      return;
     }
 
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter((inquiry) => inquiry.status === statusFilter);
+    const listed = inquiries.some((inquiry) => inquiry.id === id);
+
+    if (change.eventType === 'DELETE') {
+      if (!listed) return;
+      setInquiries((current) => current.filter((inquiry) => inquiry.id !== id));
+      setTotalCount((count) => Math.max(0, count - 1));
+      setSelectedIds((current) => withoutId(current, id));
+      return;
     }
 
-    setFilteredInquiries(filtered);
+    try {
+      const { data, error } = await buildInquiryQuery(filters, profile, INQUIRY_LIST_SELECT).eq('id', id).maybeSingle();
+      if (error) throw error;
+
+      const row: Inquiry | null = data;
+
+      if (!row) {
+        if (listed) {
+          setInquiries((current) => current.filter((inquiry) => inquiry.id !== id));
+          setTotalCount((count) => Math.max(0, count - 1));
+          setSelectedIds((current) => withoutId(current, id));
+        }
+        return;
+      }
+
+      if (changedElsewhere) {
+        setChangedIds((current) => new Set(current).add(id));
+      }
+
+      if (listed) {
+        setInquiries((current) => current.map((inquiry) => (inquiry.id === id ? row : inquiry)));
+      } else if (change.eventType === 'INSERT') {
+        setTotalCount((count) => count + 1);
+        // Only a brand-new row on the newest-first first page has an obvious
+        // slot; anything else appears in place on the next load.
+        if (filters.page === 1 && filters.sort === 'created_desc') {
+          setInquiries((current) => [row, ...current].slice(0, INQUIRY_PAGE_SIZE));
+        }
+      }
+    } catch (error) {
+      console.error('Error applying inquiry change:', error);
+    }
+  }
+
+  async function openLinkedInquiry(inquiryId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('inquiries')
+        .select(INQUIRY_LIST_SELECT)
+        .eq('id', inquiryId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data) {
+        alert('This inquiry no longer exists or is not assigned to you.');
+        clearLinkedInquiry();
+        return;
+      }
+
+      setSelectedInquiry(data);
+      setShowDetailsModal(true);
+    } catch (error) {
+      console.error('Error loading linked inquiry:', error);
+    }
   }
 
-  function getStatusBadge(status: string) {
-    const styles = {
-      pending: 'bg-yellow-100 text-yellow-700 border-yellow-300',
-      converted: 'bg-green-100 text-green-700 border-green-300',
-      dropped: 'bg-red-100 text-red-700 border-red-300',
-    };
-    return styles[status as keyof typeof styles] || styles.pending;
+  function clearLinkedInquiry() {
+    if (!linkedInquiryId) return;
+    const next = new URLSearchParams(searchParams);
+    next.delete('inquiry');
+    setSearchParams(next, { replace: true });
+  }
+
+  function updateFilters(changes: Partial<InquiryFilters>) {
+    // Any change other than paging starts again from the first page.
+    const next = { ...filters, page: 1, ...changes };
+    setSearchParams(toInquirySearchParams(next));
+  }
+
+  async function handleExport(exportFormat: ExportFormat) {
+    setShowExportMenu(false);
+    setExporting(true);
+
+    try {
+      const rows = await fetchInquiriesForExport(filters, profile);
+      await downloadInquiries(rows, exportFormat, (key) => getStage(key)?.label ?? key);
+    } catch (error) {
+      console.error('Error exporting inquiries:', error);
+      alert('Failed to export inquiries. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function handleViewChange(nextView: InquiryView) {
+    setView(nextView);
+    localStorage.setItem(VIEW_STORAGE_KEY, nextView);
+  }
+
+  async function handleStatusChange(inquiry: Inquiry, status: string) {
+    // Lost stages need a reason, so the move waits for the reason picker.
+    if (getStage(status)?.kind === 'lost') {
+      setPendingLoss({ inquiry, status });
+      return;
+    }
+
+    const previousStatus = inquiry.status;
+    setInquiries((current) =>
+      current.map((i) => (i.id === inquiry.id ? { ...i, status } : i))
+    );
+    setColumnCounts((current) => moveColumnCount(current, previousStatus, status));
+
+    try {
+      const { error } = await supabase
+        .from('inquiries')
+        .update({ status })
+        .eq('id', inquiry.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating inquiry status:', error);
+      setInquiries((current) =>
+        current.map((i) => (i.id === inquiry.id ? { ...i, status: previousStatus } : i))
+      );
+      setColumnCounts((current) => moveColumnCount(current, status, previousStatus));
+      alert('Failed to update inquiry status. Please try again.');
+    }
   }
 
   function handleInquiryClick(inquiry: Inquiry) {
@@ -100,13 +376,71 @@ export function Inquiries() {
     setShowDetailsModal(true);
   }
 
-  function handleAssignClick(inquiry: Inquiry) {
-    setSelectedInquiry(inquiry);
-    setShowAssignModal(true);
+  function clearSelection() {
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+  }
+
+  function toggleSelected(inquiryId: string) {
+    setAllMatchingSelected(false);
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (!next.delete(inquiryId)) {
+        next.add(inquiryId);
+      }
+      return next;
+    });
+  }
+
+  function toggleSelectAll() {
+    setAllMatchingSelected(false);
+    setSelectedIds(allSelected ? new Set() : new Set(inquiries.map((inquiry) => inquiry.id)));
+  }
+
+  /**
+   * Opens a bulk action for the selection. "All matching" selections are
+   * resolved to the full list of matching inquiries first, since they reach
+   * beyond the loaded page.
+   */
+  async function openBulkAction(action: BulkAction) {
+    let targets: BulkTarget[] = selectedInquiries;
+
+    if (allMatchingSelected) {
+      setResolvingSelection(true);
+      try {
+        targets = await fetchMatchingBulkTargets(filters, profile);
+      } catch (error) {
+        console.error('Error loading selected inquiries:', error);
+        alert('Failed to load the selected inquiries. Please try again.');
+        return;
+      } finally {
+        setResolvingSelection(false);
+      }
+    }
+
+    if (action === 'assign') {
+      setAssignTargets(targets);
+    } else {
+      setBulkAction({ action, targets });
+    }
+  }
+
+  function handleBulkComplete() {
+    setAssignTargets(null);
+    setBulkAction(null);
+    clearSelection();
+    loadInquiries();
   }
 
   const canCreateInquiry = profile?.role === 'admin' || profile?.role === 'co_leader';
   const canAssignInquiry = profile?.role === 'admin' || profile?.role === 'co_leader';
+  const canExport = profile?.role === 'admin' || profile?.role === 'co_leader';
+  const canDeleteInquiry = profile?.role === 'admin';
+  const hasActiveFilters = filters.search !== '' || filters.status !== 'all';
+  const totalPages = Math.ceil(totalCount / INQUIRY_PAGE_SIZE);
+  const selectedInquiries = inquiries.filter((inquiry) => selectedIds.has(inquiry.id));
+  const allSelected = inquiries.length > 0 && selectedInquiries.length === inquiries.length;
+  const selectionCount = allMatchingSelected ? totalCount : selectedInquiries.length;
 
   if (loading) {
     return (
@@ -121,28 +455,87 @@ export function Inquiries() {
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
           <h1 className="text-3xl font-heading font-bold text-gray-900">Student Inquiries</h1>
-          <p className="text-gray-600 mt-2">{inquiries.length} total inquiries</p>
+          <p className="text-gray-600 mt-2">{totalCount} total inquiries</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex bg-white rounded-lg border border-gray-200 p-1 shadow-sm">
+            <button
+              onClick={() => handleViewChange('grid')}
+              className={`p-2 rounded-md transition ${
+                view === 'grid' ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+              title="Grid view"
+            >
+              <LayoutGrid className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => handleViewChange('board')}
+              className={`p-2 rounded-md transition ${
+                view === 'board' ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+              title="Board view"
+            >
+              <Kanban className="w-5 h-5" />
+            </button>
+          </div>
+          {canExport && (
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                disabled={exporting || totalCount === 0}
+                className="flex items-center gap-2 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium shadow-sm hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-5 h-5" />
+                {exporting ? 'Exporting...' : 'Export'}
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-20">
+                  <button
+                    onClick={() => handleExport('csv')}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    CSV (.csv)
+                  </button>
+                  <button
+                    onClick={() => handleExport('xlsx')}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    Excel (.xlsx)
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          {canCreateInquiry && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center gap-2 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium shadow-sm hover:bg-gray-50 transition"
+            >
+              <Upload className="w-5 h-5" />
+              Import
+            </button>
+          )}
+          {canCreateInquiry && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowAddModal(true)}
+              className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
+            >
+              <Plus className="w-5 h-5" />
+              Add New Inquiry
+            </motion.button>
+          )}
         </div>
-        {canCreateInquiry && (
-          <motion.button
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            onClick={() => setShowAddModal(true)}
-            className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition"
-          >
-            <Plus className="w-5 h-5" />
-            Add New Inquiry
-          </motion.button>
-        )}
       </div>
 
       <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
               type="text"
-              placeholder="Search by name, contact, email, or course..."
+              placeholder="Search by name, contact, email, course, or notes..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
@@ -151,20 +544,36 @@ export function Inquiries() {
           <div className="relative">
             <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <select
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as any)}
+              value={filters.status}
+              onChange={(e) => updateFilters({ status: e.target.value })}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition appearance-none"
+            >
+              <option value="all">All Stages</option>
+              {stages.map((stage) => (
+                <option key={stage.key} value={stage.key}>
+                  {stage.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="relative">
+            <ArrowUpDown className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as InquiryFilters['sort'] })}
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition appearance-none"
             >
-              <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="converted">Converted</option>
-              <option value="dropped">Dropped</option>
+              {Object.entries(INQUIRY_SORT_OPTIONS).map(([value, option]) => (
+                <option key={value} value={value}>
+                  {option.label}
+                </option>
+              ))}
             </select>
           </div>
         </div>
       </div>
 
-      {filteredInquiries.length === 0 ? (
+      {inquiries.length === 0 ? (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
@@ -172,82 +581,224 @@ export function Inquiries() {
         >
           <User className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-heading font-semibold text-gray-900 mb-2">
-            No inquiries yet
+            {hasActiveFilters ? 'No matching inquiries' : 'No inquiries yet'}
           </h3>
           <p className="text-gray-600">
-            {canCreateInquiry
+            {hasActiveFilters
+              ? 'Try a different search term or status filter.'
+              : canCreateInquiry
               ? 'Start by adding your first student inquiry.'
               : 'No inquiries have been assigned to you yet.'}
           </p>
         </motion.div>
+      ) : view === 'board' ? (
+        <InquiryBoard
+          inquiries={inquiries}
+          columnCounts={columnCounts}
+          highlightedIds={changedIds}
+          onLoadMore={loadMoreColumn}
+          onInquiryClick={handleInquiryClick}
+          onStatusChange={handleStatusChange}
+        />
       ) : (
-        <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-          <AnimatePresence>
-            {filteredInquiries.map((inquiry, index) => (
-              <motion.div
-                key={inquiry.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, scale: 0.9 }}
-                transition={{ delay: index * 0.05 }}
-                whileHover={{ scale: 1.02 }}
-                onClick={() => handleInquiryClick(inquiry)}
-                className="bg-white rounded-xl shadow-md p-6 border border-gray-100 cursor-pointer hover:shadow-lg transition"
-              >
-                <div className="flex justify-between items-start mb-4">
-                  <h3 className="text-lg font-heading font-bold text-gray-900">
-                    {inquiry.student_name}
-                  </h3>
-                  <span
-                    className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusBadge(
-                      inquiry.status
-                    )}`}
+        <>
+          {canAssignInquiry && (
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-white rounded-xl shadow-md px-6 py-3 border border-gray-100">
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleSelectAll}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {selectionCount > 0 ? `${selectionCount} selected` : 'Select all on this page'}
+                </label>
+                {allSelected && !allMatchingSelected && totalCount > inquiries.length && (
+                  <button
+                    onClick={() => setAllMatchingSelected(true)}
+                    className="text-primary-700 font-medium hover:text-primary-800 transition"
+                  >
+                    Select all {totalCount} matching inquiries
+                  </button>
+                )}
+                {allMatchingSelected && (
+                  <span className="text-gray-500">All inquiries matching the current filters are selected.</span>
+                )}
+              </div>
+              {selectionCount > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={clearSelection}
+                    className="px-3 py-2 text-sm text-gray-700 rounded-lg font-medium hover:bg-gray-100 transition"
+                  >
+                    Clear
+                  </button>
+                  <button
+                    onClick={() => openBulkAction('assign')}
+                    disabled={resolvingSelection}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
+                  >
+                    <UserCheck className="w-4 h-4" />
+                    Assign
+                  </button>
+                  <button
+                    onClick={() => openBulkAction('status')}
+                    disabled={resolvingSelection}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
+                  >
+                    <ArrowRightLeft className="w-4 h-4" />
+                    Change Stage
+                  </button>
+                  <button
+                    onClick={() => openBulkAction('tag')}
+                    disabled={resolvingSelection}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
+                  >
+                    <Tags className="w-4 h-4" />
+                    Tag
+                  </button>
+                  <button
+                    onClick={() => openBulkAction('export')}
+                    disabled={resolvingSelection}
+                    className="flex items-center gap-2 px-3 py-2 text-sm bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition disabled:opacity-50"
                   >
-                    {inquiry.status}
-                  </span>
+                    <Download className="w-4 h-4" />
+                    Export
+                  </button>
+                  {canDeleteInquiry && (
+                    <button
+                      onClick={() => openBulkAction('delete')}
+                      disabled={resolvingSelection}
+                      className="flex items-center gap-2 px-3 py-2 text-sm bg-red-50 text-red-700 rounded-lg font-medium hover:bg-red-100 transition disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </button>
+                  )}
                 </div>
-
-                <div className="space-y-2 text-sm">
-                  <div className="flex items-center gap-2 text-gray-600">
-                    <Phone className="w-4 h-4" />
-                    <span>{inquiry.contact_number}</span>
+              )}
+            </div>
+          )}
+          <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+            <AnimatePresence>
+              {inquiries.map((inquiry, index) => (
+                <motion.div
+                  key={inquiry.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                  transition={{ delay: index * 0.05 }}
+                  whileHover={{ scale: 1.02 }}
+                  onClick={() => handleInquiryClick(inquiry)}
+                  className={`bg-white rounded-xl shadow-md p-6 border cursor-pointer hover:shadow-lg transition ${
+                    changedIds.has(inquiry.id) ? 'border-amber-300 ring-2 ring-amber-200' : 'border-gray-100'
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex items-start gap-3">
+                      {canAssignInquiry && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(inquiry.id)}
+                          onChange={() => toggleSelected(inquiry.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="mt-1.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          aria-label={`Select ${inquiry.student_name}`}
+                        />
+                      )}
+                      <div>
+                        <h3 className="text-lg font-heading font-bold text-gray-900">
+                          {inquiry.student_name}
+                        </h3>
+                        {changedIds.has(inquiry.id) && <UpdatedBadge />}
+                      </div>
+                    </div>
+                    <StatusBadge status={inquiry.status} />
                   </div>
-                  {inquiry.email && (
+
+                  <div className="space-y-2 text-sm">
                     <div className="flex items-center gap-2 text-gray-600">
-                      <Mail className="w-4 h-4" />
-                      <span className="truncate">{inquiry.email}</span>
+                      <Phone className="w-4 h-4" />
+                      <span>{inquiry.contact_number}</span>
                     </div>
-                  )}
-                  <div className="flex items-center gap-2 text-gray-600">
-                    <BookOpen className="w-4 h-4" />
-                    <span>{inquiry.course_interested}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-gray-600">
-                    <Calendar className="w-4 h-4" />
-                    <span>{format(new Date(inquiry.created_at), 'MMM d, yyyy')}</span>
-                  </div>
-                  {inquiry.assigned_user && (
+                    {inquiry.email && (
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <Mail className="w-4 h-4" />
+                        <span className="truncate">{inquiry.email}</span>
+                      </div>
+                    )}
                     <div className="flex items-center gap-2 text-gray-600">
-                      <User className="w-4 h-4" />
-                      <span>Assigned to: {inquiry.assigned_user.full_name}</span>
+                      <BookOpen className="w-4 h-4" />
+                      <span>{inquiry.course_interested}</span>
                     </div>
+                    <div className="flex items-center gap-2 text-gray-600">
+                      <Calendar className="w-4 h-4" />
+                      <span>{format(new Date(inquiry.created_at), 'MMM d, yyyy')}</span>
+                    </div>
+                    {inquiry.assigned_user && (
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <User className="w-4 h-4" />
+                        <span>Assigned to: {inquiry.assigned_user.full_name}</span>
+                      </div>
+                    )}
+                    {inquiry.tags.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1 text-gray-600">
+                        <Tag className="w-4 h-4 mr-1" />
+                        {inquiry.tags.map((tag) => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-700">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {canAssignInquiry && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setAssignTargets([inquiry]);
+                      }}
+                      className="mt-4 w-full py-2 px-4 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition"
+                    >
+                      {inquiry.assigned_to ? 'Reassign' : 'Assign to Counselor'}
+                    </button>
                   )}
-                </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        </>
+      )}
 
-                {canAssignInquiry && (
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleAssignClick(inquiry);
-                    }}
-                    className="mt-4 w-full py-2 px-4 bg-primary-50 text-primary-700 rounded-lg font-medium hover:bg-primary-100 transition"
-                  >
-                    {inquiry.assigned_to ? 'Reassign' : 'Assign to Counselor'}
-                  </button>
-                )}
-              </motion.div>
-            ))}
-          </AnimatePresence>
+      {view === 'grid' && totalPages > 1 && (
+        <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+          <p className="text-sm text-gray-600">
+            Showing {(filters.page - 1) * INQUIRY_PAGE_SIZE + 1}–
+            {Math.min(filters.page * INQUIRY_PAGE_SIZE, totalCount)} of {totalCount}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => updateFilters({ page: filters.page - 1 })}
+              disabled={filters.page <= 1}
+              className="flex items-center gap-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              Previous
+            </button>
+            <span className="text-sm text-gray-600 px-2">
+              Page {filters.page} of {totalPages}
+            </span>
+            <button
+              onClick={() => updateFilters({ page: filters.page + 1 })}
+              disabled={filters.page >= totalPages}
+              className="flex items-center gap-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
         </div>
       )}
 
@@ -261,16 +812,40 @@ export function Inquiries() {
         />
       )}
 
-      {showAssignModal && selectedInquiry && (
-        <AssignInquiryModal
-          inquiry={selectedInquiry}
-          onClose={() => {
-            setShowAssignModal(false);
-            setSelectedInquiry(null);
+      {showImportModal && (
+        <ImportInquiriesModal
+          onClose={() => setShowImportModal(false)}
+          onSuccess={() => {
+            setShowImportModal(false);
+            loadInquiries();
           }}
+        />
+      )}
+
+      {assignTargets && (
+        <AssignInquiryModal
+          inquiries={assignTargets}
+          onClose={() => setAssignTargets(null)}
+          onSuccess={handleBulkComplete}
+        />
+      )}
+
+      {bulkAction && (
+        <BulkActionModal
+          action={bulkAction.action}
+          targets={bulkAction.targets}
+          onClose={() => setBulkAction(null)}
+          onComplete={handleBulkComplete}
+        />
+      )}
+
+      {pendingLoss && (
+        <LossReasonModal
+          inquiry={pendingLoss.inquiry}
+          status={pendingLoss.status}
+          onClose={() => setPendingLoss(null)}
           onSuccess={() => {
-            setShowAssignModal(false);
-            setSelectedInquiry(null);
+            setPendingLoss(null);
             loadInquiries();
           }}
         />
@@ -282,6 +857,7 @@ export function Inquiries() {
           onClose={() => {
             setShowDetailsModal(false);
             setSelectedInquiry(null);
+            clearLinkedInquiry();
           }}
           onUpdate={() => {
             loadInquiries();
@@ -1,16 +1,133 @@
 import { useState, FormEvent } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { LogIn, AlertCircle } from 'lucide-react';
+import { LogIn, AlertCircle, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { AuthLayout } from '../components/AuthLayout';
+import { fetchVerifiedTotpFactor, MfaRecoveryError, redeemRecoveryCode, verifyTotpCode } from '../lib/mfa';
+
+// Second sign-in step for users with an authenticator app. Once the session
+// reaches AAL2, the /login route sends them on to where they were headed.
+function MfaChallenge() {
+  const { refreshProfile, signOut } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(code);
+      } else {
+        const factor = await fetchVerifiedTotpFactor();
+        if (!factor) throw new Error('No authenticator found');
+        await verifyTotpCode(factor.id, code);
+      }
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error verifying second factor:', error);
+      setError(
+        error instanceof MfaRecoveryError
+          ? error.message
+          : 'That code did not match. Check the time on your phone and enter the latest code.'
+      );
+      setLoading(false);
+    }
+  }
+
+  function toggleMethod() {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError('');
+  }
+
+  return (
+    <AuthLayout
+      icon={ShieldCheck}
+      title="Two-Factor Authentication"
+      subtitle={
+        useRecoveryCode
+          ? 'Enter one of the recovery codes you saved when setting up your authenticator'
+          : 'Enter the 6-digit code from your authenticator app'
+      }
+    >
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+        >
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </motion.div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+            {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+          </label>
+          <input
+            id="mfa-code"
+            type="text"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg tracking-widest focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          />
+          {useRecoveryCode && (
+            <p className="text-xs text-gray-500 mt-1">
+              This turns off two-factor authentication until you set it up again.
+            </p>
+          )}
+        </div>
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          disabled={loading}
+          className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Verifying...' : 'Verify'}
+        </motion.button>
+
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={toggleMethod}
+            className="font-medium text-primary-600 hover:text-primary-700 transition"
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+          <button
+            type="button"
+            onClick={() => signOut()}
+            className="font-medium text-gray-600 hover:text-gray-800 transition"
+          >
+            Sign out
+          </button>
+        </div>
+      </form>
+    </AuthLayout>
+  );
+}
 
 export function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
-  const navigate = useNavigate();
+  const { user, signIn, signedOutReason, aal, mfaEnrolled } = useAuth();
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
@@ -18,8 +135,9 @@ export function Login() {
     setLoading(true);
 
     try {
+      // The /login route moves on once the profile has loaded, unless the
+      // user still has to enter an authenticator code.
       await signIn(email, password);
-      navigate('/dashboard');
     } catch (err: any) {
       setError(err.message || 'Failed to sign in');
     } finally {
@@ -27,113 +145,74 @@ export function Login() {
     }
   }
 
+  if (user && mfaEnrolled && aal !== 'aal2') {
+    return <MfaChallenge />;
+  }
+
+  const message = error || signedOutReason;
+
   return (
-    <div className="min-h-screen flex items-center justify-center relative overflow-hidden">
-      <div className="absolute inset-0 gradient-primary opacity-90"></div>
-
-      <div className="absolute inset-0 overflow-hidden">
-        {[...Array(20)].map((_, i) => (
-          <motion.div
-            key={i}
-            className="absolute bg-white rounded-full opacity-10"
-            style={{
-              width: Math.random() * 300 + 50,
-              height: Math.random() * 300 + 50,
-              left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`,
-            }}
-            animate={{
-              x: [0, Math.random() * 100 - 50],
-              y: [0, Math.random() * 100 - 50],
-              scale: [1, 1.1, 1],
-            }}
-            transition={{
-              duration: Math.random() * 10 + 10,
-              repeat: Infinity,
-              repeatType: "reverse",
-            }}
-          />
-        ))}
-      </div>
-
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.5 }}
-        className="relative z-10 w-full max-w-md mx-4"
-      >
-        <div className="bg-white rounded-2xl shadow-2xl p-8">
-          <div className="text-center mb-8">
-            <motion.div
-              initial={{ scale: 0 }}
-              animate={{ scale: 1 }}
-              transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
-              className="inline-block p-3 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl mb-4"
-            >
-              <LogIn className="w-8 h-8 text-white" />
-            </motion.div>
-            <h1 className="text-3xl font-heading font-bold text-gray-900">Welcome Back</h1>
-            <p className="text-gray-600 mt-2">Empowering smarter student admissions</p>
-          </div>
+    <AuthLayout icon={LogIn} title="Welcome Back" subtitle="Empowering smarter student admissions">
+      {message && (
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+        >
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{message}</span>
+        </motion.div>
+      )}
 
-          {error && (
-            <motion.div
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
-            >
-              <AlertCircle className="w-5 h-5 flex-shrink-0" />
-              <span className="text-sm">{error}</span>
-            </motion.div>
-          )}
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+            Email Address
+          </label>
+          <input
+            id="email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            placeholder="you@example.com"
+          />
+        </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
-                placeholder="you@example.com"
-              />
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
-                placeholder="Enter your password"
-              />
-            </div>
-
-            <motion.button
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              type="submit"
-              disabled={loading}
-              className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+              Password
+            </label>
+            <Link
+              to="/forgot-password"
+              className="text-sm font-medium text-primary-600 hover:text-primary-700 transition"
             >
-              {loading ? 'Signing in...' : 'Sign In'}
-            </motion.button>
-          </form>
+              Forgot password?
+            </Link>
+          </div>
+          <input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+            placeholder="Enter your password"
+          />
         </div>
 
-        <p className="text-center mt-6 text-white text-sm">
-          Secure access for admins, co-leaders, and employees
-        </p>
-      </motion.div>
-    </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          disabled={loading}
+          className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Signing in...' : 'Sign In'}
+        </motion.button>
+      </form>
+    </AuthLayout>
   );
 }
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Location, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthLayout } from '../components/AuthLayout';
+import { MfaEnrollment } from '../components/MfaEnrollment';
+
+export function MfaSetup() {
+  const { aal, mfaEnrolled, mfaRequired, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from ?? '/dashboard';
+
+  // Decided once: enrolling raises the session to AAL2 before the user has
+  // seen their recovery codes, and that must not navigate away.
+  const [alreadySetUp] = useState(aal === 'aal2');
+
+  if (alreadySetUp) {
+    return <Navigate to={from} replace />;
+  }
+
+  // Users with an authenticator finish signing in on the login page.
+  if (mfaEnrolled && aal !== 'aal2') {
+    return <Navigate to="/login" replace state={{ from }} />;
+  }
+
+  return (
+    <AuthLayout
+      icon={ShieldCheck}
+      title="Set Up Two-Factor Authentication"
+      subtitle={
+        mfaRequired
+          ? 'An authenticator app is required for your role'
+          : 'Admin pages require an authenticator app'
+      }
+    >
+      {mfaRequired ? (
+        <MfaEnrollment onComplete={() => navigate(from, { replace: true })} onCancel={signOut} cancelLabel="Sign Out" />
+      ) : (
+        <MfaEnrollment
+          onComplete={() => navigate(from, { replace: true })}
+          onCancel={() => navigate('/dashboard', { replace: true })}
+        />
+      )}
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,41 @@
+import { useAuth } from '../contexts/AuthContext';
+import { CalendarFeedSettings } from '../components/CalendarFeedSettings';
+import { ChangePasswordSettings } from '../components/ChangePasswordSettings';
+import { TwoFactorSettings } from '../components/TwoFactorSettings';
+
+export function Profile() {
+  const { profile } = useAuth();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-gray-900">My Profile</h1>
+        <p className="text-gray-600 mt-2">Your account details and personal integrations</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-100">
+        <h2 className="text-xl font-heading font-bold text-gray-900 mb-4">Account</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <dt className="text-sm text-gray-600">Name</dt>
+            <dd className="font-medium text-gray-900">{profile?.full_name}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-600">Email</dt>
+            <dd className="font-medium text-gray-900">{profile?.email}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-600">Role</dt>
+            <dd className="font-medium text-gray-900 capitalize">{profile?.role.replace('_', ' ')}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <ChangePasswordSettings />
+
+      <TwoFactorSettings />
+
+      <CalendarFeedSettings />
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { KeyRound, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthLayout, AuthLinkProblem } from '../components/AuthLayout';
+import { NewPasswordFields } from '../components/NewPasswordFields';
+import { authLinkErrorFromUrl, passwordErrorMessage, passwordProblem, updatePassword } from '../lib/password';
+
+const INVALID_LINK_MESSAGE = 'This reset link is invalid or has expired. Request a new one from the sign-in page.';
+
+export function ResetPassword() {
+  const { user, signedOutReason } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    const problem = passwordProblem(password, confirmPassword);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await updatePassword(password);
+      navigate('/dashboard', { replace: true });
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      setError(passwordErrorMessage(error, 'Failed to reset your password. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // The link signs the visitor in with a recovery session before this page
+  // renders; without one there is nothing to reset.
+  if (!user) {
+    return (
+      <AuthLayout icon={KeyRound} title="Reset Password" subtitle="Choose a new password">
+        <AuthLinkProblem message={signedOutReason ?? authLinkErrorFromUrl() ?? INVALID_LINK_MESSAGE} />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout icon={KeyRound} title="Reset Password" subtitle={`Choose a new password for ${user.email}`}>
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+        >
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </motion.div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <NewPasswordFields
+          password={password}
+          confirmPassword={confirmPassword}
+          onPasswordChange={setPassword}
+          onConfirmPasswordChange={setConfirmPassword}
+          label="New Password"
+        />
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          disabled={saving}
+          className="w-full py-3 px-4 bg-gradient-to-r from-primary-600 to-primary-700 text-white rounded-lg font-medium shadow-lg hover:shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Reset Password'}
+        </motion.button>
+      </form>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,20 @@
+import { PipelineStagesSettings } from '../components/PipelineStagesSettings';
+import { LossReasonsSettings } from '../components/LossReasonsSettings';
+import { AutoAssignmentSettings } from '../components/AutoAssignmentSettings';
+import { MfaPolicySettings } from '../components/MfaPolicySettings';
+
+export function Settings() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600 mt-2">Configure how the admission pipeline works for your team</p>
+      </div>
+
+      <PipelineStagesSettings />
+      <LossReasonsSettings />
+      <AutoAssignmentSettings />
+      <MfaPolicySettings />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Serves a counselor's follow-ups as an iCalendar feed. Calendar apps cannot
+// sign in, so the caller is identified by the secret token in the URL and the
+// lookup runs through the `calendar_feed_follow_ups` database function.
+//
+// Deploy with `supabase functions deploy ics-feed --no-verify-jwt` and set the
+// `APP_URL` secret to the address the web app is served from.
+
+type FeedFollowUp = {
+  id: string;
+  follow_up_date: string;
+  notes: string;
+  state: 'scheduled' | 'completed' | 'missed' | 'cancelled';
+  outcome: string | null;
+  updated_at: string | null;
+  inquiry_id: string;
+  student_name: string;
+  course_interested: string;
+  contact_number: string;
+};
+
+const EVENT_MINUTES = 30;
+
+const STATE_PREFIXES: Record<FeedFollowUp['state'], string> = {
+  scheduled: '',
+  completed: '✓ ',
+  missed: 'Missed: ',
+  cancelled: 'Cancelled: ',
+};
+
+function formatIcsDate(value: string | Date) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the
+// next line after a single leading space.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function buildEvent(followUp: FeedFollowUp, appUrl: string) {
+  const start = new Date(followUp.follow_up_date);
+  const end = new Date(start.getTime() + EVENT_MINUTES * 60000);
+  const link = `${appUrl}/inquiries?inquiry=${followUp.inquiry_id}`;
+  const description = [
+    `Course: ${followUp.course_interested}`,
+    `Phone: ${followUp.contact_number}`,
+    '',
+    followUp.notes,
+    '',
+    link,
+  ].join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:follow-up-${followUp.id}@cms-admission`,
+    `DTSTAMP:${formatIcsDate(followUp.updated_at ?? new Date())}`,
+    `LAST-MODIFIED:${formatIcsDate(followUp.updated_at ?? new Date())}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeText(`${STATE_PREFIXES[followUp.state]}Follow-up: ${followUp.student_name} (${followUp.course_interested})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${link}`,
+    `STATUS:${followUp.state === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+function buildCalendar(followUps: FeedFollowUp[], appUrl: string) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CMS Admission Platform//Follow-ups//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Admission Follow-ups',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M',
+    ...followUps.flatMap((followUp) => buildEvent(followUp, appUrl)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+
+  if (!token) {
+    return new Response('Missing feed token', { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!);
+  const { data, error } = await supabase.rpc('calendar_feed_follow_ups', { feed_token: token });
+
+  if (error) {
+    console.error('Error loading calendar feed:', error);
+    return new Response('Failed to load calendar feed', { status: 500 });
+  }
+
+  // Unknown and revoked tokens return no rows and are served as an empty
+  // calendar, so the response does not reveal whether a token exists.
+  const appUrl = (Deno.env.get('APP_URL') ?? url.origin).replace(/\/$/, '');
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'no-store',
+  };
+
+  if (url.searchParams.has('download')) {
+    headers['Content-Disposition'] = 'attachment; filename="follow-ups.ics"';
+  }
+
+  return new Response(buildCalendar((data as FeedFollowUp[]) ?? [], appUrl), { headers });
+});
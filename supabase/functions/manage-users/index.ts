@@ -0,0 +1,297 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Invites, re-roles and deletes users on behalf of admins. These calls need
+// the service role key, which must never reach the browser, so the app sends
+// its requests here with the admin's own access token and this function
+// checks the caller before acting. Callers must have verified their
+// authenticator app in this session (AAL2), like the admin pages require.
+//
+// Invite emails link to `${APP_URL}/accept-invite`, where the invitee picks
+// their password. That URL must be listed under Auth > URL Configuration >
+// Redirect URLs.
+//
+// Deploy with `supabase functions deploy manage-users`. SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are provided by the platform; set APP_URL with
+// `supabase secrets set APP_URL=https://your-app.example.com`.
+
+type Role = 'admin' | 'co_leader' | 'employee';
+
+type ManageUsersRequest =
+  | { action: 'invite'; email: string; full_name: string; role: Role }
+  | { action: 'resend_invite'; user_id: string }
+  | { action: 'revoke_invite'; user_id: string }
+  | { action: 'change_role'; user_id: string; role: Role }
+  | { action: 'delete'; user_id: string };
+
+// Keep in sync with `UserAdminErrorCode` in src/lib/userAdmin.ts.
+type ErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'mfa_required'
+  | 'invalid_request'
+  | 'email_taken'
+  | 'not_found'
+  | 'already_accepted'
+  | 'self_action'
+  | 'server_error';
+
+const ROLES: Role[] = ['admin', 'co_leader', 'employee'];
+
+// Matches the default lifetime of Supabase Auth email links. Change both
+// together, or invites will show as pending after their link stopped working.
+const INVITE_TTL_HOURS = 24;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+class ManageUsersError extends Error {
+  constructor(public code: ErrorCode, message: string, public status: number) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function requireRole(value: unknown): Role {
+  if (!ROLES.includes(value as Role)) {
+    throw new ManageUsersError('invalid_request', 'Choose a valid role.', 400);
+  }
+  return value as Role;
+}
+
+function requireText(value: unknown, message: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ManageUsersError('invalid_request', message, 400);
+  }
+  return value.trim();
+}
+
+async function requireAdmin(req: Request, admin: SupabaseClient): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data, error } = token ? await admin.auth.getUser(token) : { data: { user: null }, error: null };
+
+  if (error || !data.user) {
+    throw new ManageUsersError('unauthorized', 'Your session has expired. Please sign in again.', 401);
+  }
+
+  const { data: caller, error: callerError } = await admin
+    .from('profiles')
+    .select('role, is_active')
+    .eq('id', data.user.id)
+    .maybeSingle();
+
+  if (callerError) throw callerError;
+
+  if (!caller || caller.role !== 'admin' || !caller.is_active) {
+    throw new ManageUsersError('forbidden', 'Only admins can manage users.', 403);
+  }
+
+  // getUser() has verified the token, so its claims can be trusted.
+  const claims = JSON.parse(atob(token!.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+  if (claims.aal !== 'aal2') {
+    throw new ManageUsersError('mfa_required', 'Verify your authenticator app to manage users.', 403);
+  }
+
+  return data.user.id;
+}
+
+async function sendInvite(admin: SupabaseClient, callerId: string, userId: string, email: string, fullName: string) {
+  const { error } = await admin.auth.admin.inviteUserByEmail(email, {
+    redirectTo: `${Deno.env.get('APP_URL')}/accept-invite`,
+    data: { full_name: fullName },
+  });
+  if (error) throw error;
+
+  const sentAt = new Date();
+  const expiresAt = new Date(sentAt.getTime() + INVITE_TTL_HOURS * 60 * 60 * 1000);
+
+  const { data: invitation, error: invitationError } = await admin
+    .from('user_invitations')
+    .upsert({
+      user_id: userId,
+      invited_by: callerId,
+      sent_at: sentAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      accepted_at: null,
+    })
+    .select()
+    .single();
+
+  if (invitationError) throw invitationError;
+  return invitation;
+}
+
+async function findPendingInvitation(admin: SupabaseClient, userId: string) {
+  const { data: invitation, error } = await admin
+    .from('user_invitations')
+    .select('*, profile:profiles!user_invitations_user_id_fkey(email, full_name)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!invitation) {
+    throw new ManageUsersError('not_found', 'This invitation no longer exists.', 404);
+  }
+  if (invitation.accepted_at) {
+    throw new ManageUsersError('already_accepted', 'This invitation has already been accepted.', 409);
+  }
+  return invitation;
+}
+
+async function inviteUser(admin: SupabaseClient, callerId: string, request: Record<string, unknown>) {
+  const email = requireText(request.email, 'Enter an email address.').toLowerCase();
+  const fullName = requireText(request.full_name, 'Enter the full name.');
+  const role = requireRole(request.role);
+
+  // The `create_profile_for_new_user` trigger inserts an inactive profile in
+  // the same transaction as the auth user. It stays inactive until the invitee
+  // accepts.
+  const { data, error } = await admin.auth.admin.createUser({
+    email,
+    email_confirm: false,
+    user_metadata: { full_name: fullName },
+    app_metadata: { role, created_by: callerId, invited: true },
+  });
+
+  if (error) {
+    if (error.code === 'email_exists' || error.code === 'user_already_exists') {
+      throw new ManageUsersError('email_taken', 'A user with this email address already exists.', 409);
+    }
+    throw error;
+  }
+
+  let invitation;
+  try {
+    invitation = await sendInvite(admin, callerId, data.user.id, email, fullName);
+  } catch (sendError) {
+    // Without an invite nobody can ever sign in as this user, so do not leave
+    // it behind; the admin can simply try again.
+    await admin.auth.admin.deleteUser(data.user.id);
+    throw sendError;
+  }
+
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .select('*')
+    .eq('id', data.user.id)
+    .single();
+
+  if (profileError) throw profileError;
+  return { profile, invitation };
+}
+
+async function resendInvite(admin: SupabaseClient, callerId: string, request: Record<string, unknown>) {
+  const userId = requireText(request.user_id, 'Choose a user.');
+  const { profile } = await findPendingInvitation(admin, userId);
+
+  const invitation = await sendInvite(admin, callerId, userId, profile.email, profile.full_name);
+  return { invitation };
+}
+
+async function revokeInvite(admin: SupabaseClient, request: Record<string, unknown>) {
+  const userId = requireText(request.user_id, 'Choose a user.');
+  await findPendingInvitation(admin, userId);
+
+  // The invitee never signed in, so removing the user leaves nothing behind
+  // and makes the old link useless.
+  const { error } = await admin.auth.admin.deleteUser(userId);
+  if (error && error.status !== 404) throw error;
+
+  return { revoked: userId };
+}
+
+async function changeRole(admin: SupabaseClient, callerId: string, request: Record<string, unknown>) {
+  const userId = requireText(request.user_id, 'Choose a user.');
+  const role = requireRole(request.role);
+
+  // Admins cannot demote themselves, which also keeps at least one admin.
+  if (userId === callerId) {
+    throw new ManageUsersError('self_action', 'You cannot change your own role.', 400);
+  }
+
+  const { data: profile, error } = await admin
+    .from('profiles')
+    .update({ role })
+    .eq('id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile) {
+    throw new ManageUsersError('not_found', 'This user no longer exists.', 404);
+  }
+
+  const { error: metadataError } = await admin.auth.admin.updateUserById(userId, { app_metadata: { role } });
+  if (metadataError) throw metadataError;
+
+  return { profile };
+}
+
+async function deleteUser(admin: SupabaseClient, callerId: string, request: Record<string, unknown>) {
+  const userId = requireText(request.user_id, 'Choose a user.');
+
+  if (userId === callerId) {
+    throw new ManageUsersError('self_action', 'You cannot remove your own account.', 400);
+  }
+
+  // The profile and everything owned by it go with the auth user through
+  // ON DELETE CASCADE; their inquiries become unassigned.
+  const { error } = await admin.auth.admin.deleteUser(userId);
+
+  if (error) {
+    if (error.status === 404) {
+      throw new ManageUsersError('not_found', 'This user no longer exists.', 404);
+    }
+    throw error;
+  }
+
+  return { deleted: userId };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: { code: 'invalid_request', message: 'Method not allowed' } }, 405);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const callerId = await requireAdmin(req, admin);
+    const request = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+
+    switch (request.action as ManageUsersRequest['action']) {
+      case 'invite':
+        return json(await inviteUser(admin, callerId, request));
+      case 'resend_invite':
+        return json(await resendInvite(admin, callerId, request));
+      case 'revoke_invite':
+        return json(await revokeInvite(admin, request));
+      case 'change_role':
+        return json(await changeRole(admin, callerId, request));
+      case 'delete':
+        return json(await deleteUser(admin, callerId, request));
+      default:
+        throw new ManageUsersError('invalid_request', 'Unknown action.', 400);
+    }
+  } catch (error) {
+    if (error instanceof ManageUsersError) {
+      return json({ error: { code: error.code, message: error.message } }, error.status);
+    }
+
+    console.error('Error managing users:', error);
+    return json({ error: { code: 'server_error', message: 'Something went wrong. Please try again.' } }, 500);
+  }
+});
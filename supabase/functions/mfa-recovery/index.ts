@@ -0,0 +1,84 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Lets a user who lost their authenticator app sign in with one of their
+// recovery codes. The app calls this with the session from the password step
+// (AAL1); if the code matches, it is used up and the user's authenticator
+// factors are removed, so the session no longer needs a second step and the
+// user can enroll a new authenticator. Removing factors needs the service
+// role key, which is why this runs on the server. Repeated wrong codes lock
+// recovery for the user for a while; the database keeps the count.
+//
+// Deploy with `supabase functions deploy mfa-recovery`. SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are provided by the platform.
+
+// Keep in sync with `MfaRecoveryErrorCode` in src/lib/mfa.ts.
+type ErrorCode = 'unauthorized' | 'invalid_request' | 'invalid_code' | 'too_many_attempts' | 'server_error';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function failure(code: ErrorCode, message: string, status: number) {
+  return json({ error: { code, message } }, status);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return failure('invalid_request', 'Method not allowed', 405);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data, error } = token ? await admin.auth.getUser(token) : { data: { user: null }, error: null };
+
+    if (error || !data.user) {
+      return failure('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+
+    const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+    const code = typeof body.code === 'string' ? body.code : '';
+
+    const { data: outcome, error: consumeError } = await admin.rpc('consume_mfa_recovery_code', {
+      target_user: data.user.id,
+      code,
+    });
+
+    if (consumeError) throw consumeError;
+    if (outcome === 'locked') {
+      return failure('too_many_attempts', 'Too many wrong recovery codes. Please wait 15 minutes and try again.', 429);
+    }
+    if (outcome !== 'used') {
+      return failure('invalid_code', 'That recovery code is not valid or has already been used.', 400);
+    }
+
+    const { data: factors, error: factorsError } = await admin.auth.admin.mfa.listFactors({ userId: data.user.id });
+    if (factorsError) throw factorsError;
+
+    for (const factor of factors.factors) {
+      const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: data.user.id });
+      if (deleteError) throw deleteError;
+    }
+
+    return json({ recovered: data.user.id });
+  } catch (error) {
+    console.error('Error redeeming recovery code:', error);
+    return failure('server_error', 'Something went wrong. Please try again.', 500);
+  }
+});
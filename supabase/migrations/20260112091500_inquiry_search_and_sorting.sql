@@ -0,0 +1,88 @@
+/*
+  # Server-side Search and Sorting for Inquiries
+
+  ## Overview
+  Moves inquiry filtering from the browser to Postgres so the list can be paged.
+
+  ## 1. Changes to `inquiries`
+  - `next_follow_up_at` (timestamptz) - Earliest follow-up date that is still
+    upcoming, kept in sync by a trigger on `follow_ups`
+  - `search_vector` (tsvector, generated) - Full-text index over student name,
+    contact number, email, course and additional notes
+
+  ## 2. Indexes
+  - GIN index on `search_vector`
+  - B-tree indexes for the list sort options (updated date, student name,
+    next follow-up)
+
+  ## 3. Important Notes
+  - The `simple` text search configuration is used so names and phone numbers
+    are not stemmed
+  - Existing rows are backfilled with their earliest upcoming follow-up date
+  - "Upcoming" is judged when a follow-up is written, so the column keeps a
+    date that has since passed until the inquiry's follow-ups change again
+*/
+
+-- Add sortable next follow-up column
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS next_follow_up_at timestamptz;
+
+-- Add full-text search column
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple'::regconfig,
+      coalesce(student_name, '') || ' ' ||
+      coalesce(contact_number, '') || ' ' ||
+      coalesce(email, '') || ' ' ||
+      coalesce(course_interested, '') || ' ' ||
+      coalesce(more_input, '')
+    )
+  ) STORED;
+
+-- Create indexes for search and sort options
+CREATE INDEX IF NOT EXISTS idx_inquiries_search_vector ON inquiries USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_inquiries_updated_at ON inquiries(updated_at);
+CREATE INDEX IF NOT EXISTS idx_inquiries_student_name ON inquiries(student_name);
+CREATE INDEX IF NOT EXISTS idx_inquiries_next_follow_up_at ON inquiries(next_follow_up_at);
+
+-- Create function to keep next_follow_up_at in sync with follow_ups
+CREATE OR REPLACE FUNCTION refresh_inquiry_next_follow_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_inquiry_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_inquiry_id := OLD.inquiry_id;
+  ELSE
+    target_inquiry_id := NEW.inquiry_id;
+  END IF;
+
+  UPDATE inquiries
+  SET next_follow_up_at = (
+    SELECT min(f.follow_up_date)
+    FROM follow_ups f
+    WHERE f.inquiry_id = target_inquiry_id
+    AND f.follow_up_date >= now()
+  )
+  WHERE id = target_inquiry_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_inquiry_next_follow_up ON follow_ups;
+CREATE TRIGGER refresh_inquiry_next_follow_up
+  AFTER INSERT OR UPDATE OF follow_up_date OR DELETE ON follow_ups
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_inquiry_next_follow_up();
+
+-- Backfill existing inquiries
+UPDATE inquiries i
+SET next_follow_up_at = f.upcoming
+FROM (
+  SELECT inquiry_id, min(follow_up_date) AS upcoming
+  FROM follow_ups
+  WHERE follow_up_date >= now()
+  GROUP BY inquiry_id
+) f
+WHERE f.inquiry_id = i.id;
@@ -0,0 +1,23 @@
+/*
+  # Normalized Phone Numbers for Inquiries
+
+  ## Overview
+  Adds a normalized form of `contact_number` so imports can detect leads that
+  already exist regardless of how the number was typed.
+
+  ## 1. Changes to `inquiries`
+  - `normalized_phone` (text, generated) - Last 10 digits of `contact_number`
+    with spaces, dashes, brackets and country prefixes stripped
+
+  ## 2. Indexes
+  - B-tree index on `normalized_phone`
+
+  ## 3. Important Notes
+  - The same normalization is applied in the browser by `normalizePhone()` in
+    `src/lib/inquiries.ts`; keep both in sync
+*/
+
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS normalized_phone text
+  GENERATED ALWAYS AS (right(regexp_replace(contact_number, '\D', '', 'g'), 10)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_normalized_phone ON inquiries(normalized_phone);
@@ -0,0 +1,153 @@
+/*
+  # Duplicate Lead Detection and Merge
+
+  ## Overview
+  Lets the platform spot inquiries created twice for the same student and lets
+  admins fold them into a single record.
+
+  ## 1. Changes to `inquiries`
+  - `normalized_email` (text, generated) - Lower-cased, trimmed `email`
+
+  ## 2. New Tables
+
+  ### `inquiry_merges`
+  Permanent record of every merge
+  - `id` (uuid, primary key) - Unique merge identifier
+  - `primary_inquiry_id` (uuid) - Inquiry that was kept
+  - `merged_inquiry_id` (uuid) - Inquiry that was merged away (row no longer exists)
+  - `merged_snapshot` (jsonb) - Full copy of the merged inquiry before deletion
+  - `follow_ups_moved` (integer) - Number of follow-ups re-parented to the primary
+  - `merged_by` (uuid) - Admin who performed the merge
+  - `merged_at` (timestamptz) - Merge timestamp
+
+  ## 3. New Functions
+  - `current_user_role()` - Role of the signed-in user, readable from policies
+    without recursing into the `profiles` policies
+  - `find_duplicate_inquiry_groups()` - Groups of inquiries sharing a normalized
+    phone number or email
+  - `merge_inquiries(primary_id, duplicate_ids)` - Admin-only merge that moves
+    follow-ups, keeps the richer field values and logs the merge
+
+  ## 4. Security
+  - RLS enabled on `inquiry_merges`; only admins can read it
+  - Rows are only written by `merge_inquiries()`
+
+  ## 5. Important Notes
+  - Field precedence on merge: non-empty values win over empty ones, the longer
+    name wins, notes from both records are concatenated, and the furthest
+    status wins (converted over pending over dropped)
+*/
+
+-- Add normalized email column
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS normalized_email text
+  GENERATED ALWAYS AS (nullif(lower(btrim(email)), '')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_normalized_email ON inquiries(normalized_email);
+
+-- Create helper returning the caller's role
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create inquiry_merges table
+CREATE TABLE IF NOT EXISTS inquiry_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  primary_inquiry_id uuid NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+  merged_inquiry_id uuid NOT NULL,
+  merged_snapshot jsonb NOT NULL,
+  follow_ups_moved integer NOT NULL DEFAULT 0,
+  merged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  merged_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inquiry_merges_primary_inquiry_id ON inquiry_merges(primary_inquiry_id);
+
+ALTER TABLE inquiry_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inquiry merges"
+  ON inquiry_merges FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Create function listing duplicate groups
+CREATE OR REPLACE FUNCTION find_duplicate_inquiry_groups()
+RETURNS TABLE (match_type text, match_value text, inquiry_ids uuid[]) AS $$
+  SELECT 'phone', normalized_phone, array_agg(id ORDER BY created_at)
+  FROM inquiries
+  WHERE normalized_phone <> ''
+  GROUP BY normalized_phone
+  HAVING count(*) > 1
+  UNION ALL
+  SELECT 'email', normalized_email, array_agg(id ORDER BY created_at)
+  FROM inquiries
+  WHERE normalized_email IS NOT NULL
+  GROUP BY normalized_email
+  HAVING count(*) > 1;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Create merge function
+CREATE OR REPLACE FUNCTION merge_inquiries(primary_id uuid, duplicate_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  dup inquiries%ROWTYPE;
+  moved integer;
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can merge inquiries' USING ERRCODE = '42501';
+  END IF;
+
+  IF primary_id = ANY(duplicate_ids) THEN
+    RAISE EXCEPTION 'An inquiry cannot be merged into itself';
+  END IF;
+
+  PERFORM 1 FROM inquiries WHERE id = primary_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inquiry % not found', primary_id;
+  END IF;
+
+  FOR dup IN
+    SELECT * FROM inquiries WHERE id = ANY(duplicate_ids) ORDER BY created_at FOR UPDATE
+  LOOP
+    UPDATE follow_ups SET inquiry_id = primary_id WHERE inquiry_id = dup.id;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+
+    UPDATE inquiries p
+    SET
+      student_name = CASE
+        WHEN length(btrim(dup.student_name)) > length(btrim(p.student_name)) THEN dup.student_name
+        ELSE p.student_name
+      END,
+      email = coalesce(nullif(btrim(p.email), ''), dup.email),
+      course_interested = coalesce(nullif(btrim(p.course_interested), ''), dup.course_interested),
+      more_input = CASE
+        WHEN nullif(btrim(dup.more_input), '') IS NULL THEN p.more_input
+        WHEN nullif(btrim(p.more_input), '') IS NULL THEN dup.more_input
+        WHEN p.more_input = dup.more_input THEN p.more_input
+        ELSE p.more_input || E'\n\n' || dup.more_input
+      END,
+      status = CASE
+        WHEN 'converted' IN (p.status, dup.status) THEN 'converted'
+        WHEN 'pending' IN (p.status, dup.status) THEN 'pending'
+        ELSE p.status
+      END,
+      assigned_to = coalesce(p.assigned_to, dup.assigned_to),
+      created_at = least(p.created_at, dup.created_at)
+    WHERE p.id = primary_id;
+
+    INSERT INTO inquiry_merges (primary_inquiry_id, merged_inquiry_id, merged_snapshot, follow_ups_moved, merged_by)
+    VALUES (primary_id, dup.id, to_jsonb(dup), moved, auth.uid());
+
+    DELETE FROM inquiries WHERE id = dup.id;
+  END LOOP;
+
+  UPDATE inquiries
+  SET next_follow_up_at = (
+    SELECT min(f.follow_up_date) FROM follow_ups f WHERE f.inquiry_id = primary_id AND f.follow_up_date >= now()
+  )
+  WHERE id = primary_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_inquiries(uuid, uuid[]) FROM public, anon;
+GRANT EXECUTE ON FUNCTION merge_inquiries(uuid, uuid[]) TO authenticated;
@@ -0,0 +1,150 @@
+/*
+  # Inquiry Status History and Audit Trail
+
+  ## Overview
+  Records every change made to an inquiry, whichever screen it came from, in an
+  append-only history table.
+
+  ## 1. New Tables
+
+  ### `inquiry_history`
+  One row per changed field (or per lifecycle event)
+  - `id` (uuid, primary key) - Unique history entry identifier
+  - `inquiry_id` (uuid) - Reference to the inquiry
+  - `action` (text) - 'created', 'updated' or 'merged'
+  - `field` (text) - Column that changed (null for 'created')
+  - `old_value` (text) - Value before the change
+  - `new_value` (text) - Value after the change
+  - `changed_by` (uuid) - User who made the change (null for system changes)
+  - `changed_at` (timestamptz) - Change timestamp
+
+  ## 2. New Functions
+  - `history_display_value(field, value)` - Turns stored ids into readable
+    values (e.g. `assigned_to` becomes the counselor's name)
+  - `record_inquiry_history()` - Trigger writing history rows for inquiries
+  - `record_inquiry_merge_history()` - Trigger logging merges on the kept inquiry
+
+  ## 3. Security
+  - RLS enabled; users can read history for inquiries they can access
+  - No insert, update or delete policies: rows are only written by triggers
+
+  ## 4. Important Notes
+  - Derived columns (`updated_at`, `next_follow_up_at`, search and normalized
+    columns) are not tracked
+  - Every other column is diffed generically, so columns added later are
+    tracked automatically
+*/
+
+-- Create inquiry_history table
+CREATE TABLE IF NOT EXISTS inquiry_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inquiry_id uuid NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('created', 'updated', 'merged')),
+  field text,
+  old_value text,
+  new_value text,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inquiry_history_inquiry_id ON inquiry_history(inquiry_id, changed_at);
+
+ALTER TABLE inquiry_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history for accessible inquiries"
+  ON inquiry_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM inquiries i
+      WHERE i.id = inquiry_history.inquiry_id
+      AND (
+        current_user_role() IN ('admin', 'co_leader')
+        OR i.assigned_to = auth.uid()
+      )
+    )
+  );
+
+-- Create function resolving ids to readable values
+CREATE OR REPLACE FUNCTION history_display_value(field text, value text)
+RETURNS text AS $$
+BEGIN
+  IF value IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF field = 'assigned_to' THEN
+    RETURN coalesce((SELECT full_name FROM profiles WHERE id = value::uuid), value);
+  END IF;
+
+  RETURN value;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create trigger function writing history rows
+CREATE OR REPLACE FUNCTION record_inquiry_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  key text;
+  ignored text[] := ARRAY[
+    'id', 'created_at', 'updated_at', 'next_follow_up_at',
+    'search_vector', 'normalized_phone', 'normalized_email'
+  ];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO inquiry_history (inquiry_id, action, new_value, changed_by)
+    VALUES (NEW.id, 'created', NEW.status, auth.uid());
+    RETURN NULL;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+
+  FOR key IN SELECT jsonb_object_keys(new_row) LOOP
+    CONTINUE WHEN key = ANY(ignored);
+    CONTINUE WHEN old_row -> key IS NOT DISTINCT FROM new_row -> key;
+
+    INSERT INTO inquiry_history (inquiry_id, action, field, old_value, new_value, changed_by)
+    VALUES (
+      NEW.id,
+      'updated',
+      key,
+      history_display_value(key, old_row ->> key),
+      history_display_value(key, new_row ->> key),
+      auth.uid()
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_inquiry_history ON inquiries;
+CREATE TRIGGER record_inquiry_history
+  AFTER INSERT OR UPDATE ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION record_inquiry_history();
+
+-- Create trigger function logging merges on the kept inquiry
+CREATE OR REPLACE FUNCTION record_inquiry_merge_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO inquiry_history (inquiry_id, action, old_value, new_value, changed_by)
+  VALUES (
+    NEW.primary_inquiry_id,
+    'merged',
+    NEW.merged_snapshot ->> 'student_name',
+    NEW.merged_inquiry_id::text,
+    NEW.merged_by
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_inquiry_merge_history ON inquiry_merges;
+CREATE TRIGGER record_inquiry_merge_history
+  AFTER INSERT ON inquiry_merges
+  FOR EACH ROW
+  EXECUTE FUNCTION record_inquiry_merge_history();
@@ -0,0 +1,203 @@
+/*
+  # Configurable Pipeline Stages
+
+  ## Overview
+  Replaces the hard-coded pending/converted/dropped statuses with an ordered,
+  admin-managed list of pipeline stages.
+
+  ## 1. New Tables
+
+  ### `pipeline_stages`
+  - `key` (text, primary key) - Stable identifier stored in `inquiries.status`
+  - `label` (text) - Display name
+  - `color` (text) - Hex colour used for badges and charts
+  - `position` (integer) - Order of the stage in the funnel
+  - `kind` (text) - 'open', 'won' or 'lost'
+  - `created_at` (timestamptz) - Creation timestamp
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## 2. Changes to `inquiries`
+  - The `status` CHECK constraint is replaced by a foreign key to
+    `pipeline_stages(key)`; stages in use cannot be deleted
+  - New inquiries without a status start in the first open stage
+
+  ## 3. Security
+  - RLS enabled; every signed-in user can read stages, only admins can change them
+
+  ## 4. Important Notes
+  - The existing keys are kept so no inquiry rows need rewriting:
+    'pending' becomes "New", 'converted' becomes "Enrolled" and 'dropped'
+    becomes "Lost"
+  - `merge_inquiries()` now ranks statuses by stage kind (won, open, lost)
+*/
+
+-- Create pipeline_stages table
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  key text PRIMARY KEY CHECK (key ~ '^[a-z0-9_]+$'),
+  label text NOT NULL,
+  color text NOT NULL DEFAULT '#6b7280' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  position integer NOT NULL DEFAULT 0,
+  kind text NOT NULL CHECK (kind IN ('open', 'won', 'lost')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_position ON pipeline_stages(position);
+
+INSERT INTO pipeline_stages (key, label, color, position, kind) VALUES
+  ('pending', 'New', '#f59e0b', 10, 'open'),
+  ('contacted', 'Contacted', '#0ea5e9', 20, 'open'),
+  ('counselling_booked', 'Counselling Booked', '#6366f1', 30, 'open'),
+  ('demo_attended', 'Demo Attended', '#8b5cf6', 40, 'open'),
+  ('fee_paid', 'Fee Paid', '#14b8a6', 50, 'open'),
+  ('converted', 'Enrolled', '#10b981', 60, 'won'),
+  ('dropped', 'Lost', '#ef4444', 70, 'lost')
+ON CONFLICT (key) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_pipeline_stages_updated_at ON pipeline_stages;
+CREATE TRIGGER update_pipeline_stages_updated_at
+  BEFORE UPDATE ON pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view pipeline stages"
+  ON pipeline_stages FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert pipeline stages"
+  ON pipeline_stages FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE POLICY "Only admins can update pipeline stages"
+  ON pipeline_stages FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE POLICY "Only admins can delete pipeline stages"
+  ON pipeline_stages FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Point inquiries.status at the stage table
+ALTER TABLE inquiries DROP CONSTRAINT IF EXISTS inquiries_status_check;
+ALTER TABLE inquiries ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE inquiries
+  ADD CONSTRAINT inquiries_status_fkey
+  FOREIGN KEY (status) REFERENCES pipeline_stages(key)
+  ON UPDATE CASCADE ON DELETE RESTRICT;
+
+-- Create function placing new inquiries in the first open stage
+CREATE OR REPLACE FUNCTION set_default_inquiry_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NULL THEN
+    SELECT key INTO NEW.status
+    FROM pipeline_stages
+    WHERE kind = 'open'
+    ORDER BY position
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_default_inquiry_status ON inquiries;
+CREATE TRIGGER set_default_inquiry_status
+  BEFORE INSERT ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_inquiry_status();
+
+-- Create helper ranking statuses for merges: won, then open, then lost
+CREATE OR REPLACE FUNCTION stage_rank(stage_key text)
+RETURNS integer AS $$
+  SELECT CASE kind WHEN 'won' THEN 3 WHEN 'open' THEN 2 ELSE 1 END
+  FROM pipeline_stages
+  WHERE key = stage_key;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Rank statuses by stage kind when merging
+CREATE OR REPLACE FUNCTION merge_inquiries(primary_id uuid, duplicate_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  dup inquiries%ROWTYPE;
+  moved integer;
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can merge inquiries' USING ERRCODE = '42501';
+  END IF;
+
+  IF primary_id = ANY(duplicate_ids) THEN
+    RAISE EXCEPTION 'An inquiry cannot be merged into itself';
+  END IF;
+
+  PERFORM 1 FROM inquiries WHERE id = primary_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inquiry % not found', primary_id;
+  END IF;
+
+  FOR dup IN
+    SELECT * FROM inquiries WHERE id = ANY(duplicate_ids) ORDER BY created_at FOR UPDATE
+  LOOP
+    UPDATE follow_ups SET inquiry_id = primary_id WHERE inquiry_id = dup.id;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+
+    UPDATE inquiries p
+    SET
+      student_name = CASE
+        WHEN length(btrim(dup.student_name)) > length(btrim(p.student_name)) THEN dup.student_name
+        ELSE p.student_name
+      END,
+      email = coalesce(nullif(btrim(p.email), ''), dup.email),
+      course_interested = coalesce(nullif(btrim(p.course_interested), ''), dup.course_interested),
+      more_input = CASE
+        WHEN nullif(btrim(dup.more_input), '') IS NULL THEN p.more_input
+        WHEN nullif(btrim(p.more_input), '') IS NULL THEN dup.more_input
+        WHEN p.more_input = dup.more_input THEN p.more_input
+        ELSE p.more_input || E'\n\n' || dup.more_input
+      END,
+      status = CASE
+        WHEN stage_rank(dup.status) > stage_rank(p.status) THEN dup.status
+        ELSE p.status
+      END,
+      assigned_to = coalesce(p.assigned_to, dup.assigned_to),
+      created_at = least(p.created_at, dup.created_at)
+    WHERE p.id = primary_id;
+
+    INSERT INTO inquiry_merges (primary_inquiry_id, merged_inquiry_id, merged_snapshot, follow_ups_moved, merged_by)
+    VALUES (primary_id, dup.id, to_jsonb(dup), moved, auth.uid());
+
+    DELETE FROM inquiries WHERE id = dup.id;
+  END LOOP;
+
+  UPDATE inquiries
+  SET next_follow_up_at = (
+    SELECT min(f.follow_up_date) FROM follow_ups f WHERE f.inquiry_id = primary_id AND f.follow_up_date >= now()
+  )
+  WHERE id = primary_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Show stage labels rather than keys in the audit trail
+CREATE OR REPLACE FUNCTION history_display_value(field text, value text)
+RETURNS text AS $$
+BEGIN
+  IF value IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF field = 'assigned_to' THEN
+    RETURN coalesce((SELECT full_name FROM profiles WHERE id = value::uuid), value);
+  END IF;
+
+  IF field = 'status' THEN
+    RETURN coalesce((SELECT label FROM pipeline_stages WHERE key = value), value);
+  END IF;
+
+  RETURN value;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,137 @@
+/*
+  # Loss Reasons
+
+  ## Overview
+  Records why an inquiry was lost. Moving an inquiry into a lost stage now
+  requires picking one of an admin-managed list of reasons, with an optional
+  free-text note.
+
+  ## 1. New Tables
+
+  ### `loss_reasons`
+  - `id` (uuid, primary key) - Unique identifier
+  - `label` (text, unique) - Reason shown in the picker and in analytics
+  - `position` (integer) - Order of the reason in the picker
+  - `is_active` (boolean) - Inactive reasons stay on past inquiries but are
+    no longer offered
+  - `created_at` (timestamptz) - Creation timestamp
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## 2. Changes to `inquiries`
+  - `loss_reason_id` (uuid, nullable) - References `loss_reasons`; reasons in
+    use cannot be deleted
+  - `loss_note` (text, nullable) - Optional detail from the counselor
+
+  ## 3. Security
+  - RLS enabled; every signed-in user can read reasons, only admins can change them
+
+  ## 4. Important Notes
+  - A BEFORE trigger rejects moves into a lost stage without a reason and
+    clears the reason and note when an inquiry leaves a lost stage
+  - Inquiries that were already lost before this migration keep a NULL reason
+  - `history_display_value()` now shows reason labels in the audit trail
+*/
+
+-- Create loss_reasons table
+CREATE TABLE IF NOT EXISTS loss_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL UNIQUE,
+  position integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO loss_reasons (label, position) VALUES
+  ('Fees too high', 10),
+  ('Joined a competitor', 20),
+  ('Unreachable', 30),
+  ('Timing not right', 40),
+  ('Course not offered', 50),
+  ('Location / commute', 60),
+  ('Other', 70)
+ON CONFLICT (label) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_loss_reasons_updated_at ON loss_reasons;
+CREATE TRIGGER update_loss_reasons_updated_at
+  BEFORE UPDATE ON loss_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE loss_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view loss reasons"
+  ON loss_reasons FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert loss reasons"
+  ON loss_reasons FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE POLICY "Only admins can update loss reasons"
+  ON loss_reasons FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE POLICY "Only admins can delete loss reasons"
+  ON loss_reasons FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Add loss columns to inquiries
+ALTER TABLE inquiries
+  ADD COLUMN IF NOT EXISTS loss_reason_id uuid REFERENCES loss_reasons(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS loss_note text;
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_loss_reason_id ON inquiries(loss_reason_id);
+
+-- Create function requiring a reason whenever an inquiry is lost
+CREATE OR REPLACE FUNCTION enforce_inquiry_loss_reason()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT kind FROM pipeline_stages WHERE key = NEW.status) = 'lost' THEN
+    IF NEW.loss_reason_id IS NULL
+      AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status OR OLD.loss_reason_id IS NOT NULL)
+    THEN
+      RAISE EXCEPTION 'A loss reason is required for inquiries in a lost stage' USING ERRCODE = '23514';
+    END IF;
+  ELSE
+    NEW.loss_reason_id := NULL;
+    NEW.loss_note := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_inquiry_loss_reason ON inquiries;
+CREATE TRIGGER enforce_inquiry_loss_reason
+  BEFORE INSERT OR UPDATE OF status, loss_reason_id, loss_note ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_inquiry_loss_reason();
+
+-- Show reason labels rather than ids in the audit trail
+CREATE OR REPLACE FUNCTION history_display_value(field text, value text)
+RETURNS text AS $$
+BEGIN
+  IF value IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF field = 'assigned_to' THEN
+    RETURN coalesce((SELECT full_name FROM profiles WHERE id = value::uuid), value);
+  END IF;
+
+  IF field = 'status' THEN
+    RETURN coalesce((SELECT label FROM pipeline_stages WHERE key = value), value);
+  END IF;
+
+  IF field = 'loss_reason_id' THEN
+    RETURN coalesce((SELECT label FROM loss_reasons WHERE id = value::uuid), value);
+  END IF;
+
+  RETURN value;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
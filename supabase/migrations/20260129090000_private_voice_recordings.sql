@@ -0,0 +1,72 @@
+/*
+  # Private Voice Recordings
+
+  ## Overview
+  Voice recordings were stored in a public bucket and referenced by their
+  public URL, so anyone holding a link could play a recorded student call.
+  The bucket is now private and follow-ups store the object path; the app
+  requests short-lived signed URLs for playback.
+
+  ## 1. Storage
+  - The `voice-recordings` bucket is created if missing and marked private
+  - Objects live under `<inquiry id>/<timestamp>.<ext>`; read and upload access
+    is granted only when the caller can see that inquiry under the existing
+    `inquiries` RLS policies
+  - Admins can delete recordings
+
+  ## 2. Changes to `follow_ups`
+  - `voice_recording_url` is renamed to `voice_recording_path`
+  - Existing public URLs are converted to bucket-relative paths
+
+  ## 3. Important Notes
+  - Signed URLs are only issued for objects the caller can read, so the
+    storage policies below are what keeps recordings private
+*/
+
+-- Make the bucket private
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('voice-recordings', 'voice-recordings', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Storage policies scoped by the inquiry folder
+DROP POLICY IF EXISTS "Users can read voice recordings for accessible inquiries" ON storage.objects;
+CREATE POLICY "Users can read voice recordings for accessible inquiries"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'voice-recordings'
+    AND EXISTS (
+      SELECT 1 FROM inquiries i
+      WHERE i.id::text = (storage.foldername(name))[1]
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can upload voice recordings for accessible inquiries" ON storage.objects;
+CREATE POLICY "Users can upload voice recordings for accessible inquiries"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'voice-recordings'
+    AND EXISTS (
+      SELECT 1 FROM inquiries i
+      WHERE i.id::text = (storage.foldername(name))[1]
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can delete voice recordings" ON storage.objects;
+CREATE POLICY "Admins can delete voice recordings"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'voice-recordings'
+    AND current_user_role() = 'admin'
+  );
+
+-- Store object paths instead of public URLs
+ALTER TABLE follow_ups RENAME COLUMN voice_recording_url TO voice_recording_path;
+
+UPDATE follow_ups
+SET voice_recording_path = substring(
+  voice_recording_path FROM '/storage/v1/object/(?:public|sign|authenticated)/voice-recordings/([^?]+)'
+)
+WHERE voice_recording_path ~ '/storage/v1/object/(?:public|sign|authenticated)/voice-recordings/';
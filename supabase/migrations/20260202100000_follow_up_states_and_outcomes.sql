@@ -0,0 +1,220 @@
+/*
+  # Follow-up States, Outcomes and Editing
+
+  ## Overview
+  Follow-ups were insert-only notes. They now carry a state and an outcome,
+  can be edited and deleted by their author or an admin, and every change is
+  written to the inquiry's audit trail.
+
+  ## 1. Changes to `follow_ups`
+  - `state` (text) - 'scheduled', 'completed', 'missed' or 'cancelled'
+  - `outcome` (text, nullable) - 'spoke_to_student', 'no_answer',
+    'call_back_later' or 'visited_campus'
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## 2. Changes to `inquiry_history`
+  - `follow_up_id` (uuid, nullable) - Follow-up the entry refers to; kept
+    without a foreign key so entries survive the follow-up being deleted
+  - New actions: 'follow_up_added', 'follow_up_updated', 'follow_up_deleted'
+
+  ## 3. Changes to `inquiries`
+  - `next_follow_up_at` is now the earliest follow-up still in the
+    'scheduled' state, rather than the earliest one dated in the future
+
+  ## 4. Security
+  - "Users can update own follow-ups" is replaced by policies letting the
+    author or an admin update and delete a follow-up
+
+  ## 5. Important Notes
+  - Existing follow-ups dated in the past are marked 'completed', since the
+    old form was used to log calls after they happened; future ones stay
+    'scheduled'
+  - Follow-ups moved by `merge_inquiries()` or removed together with their
+    inquiry are not logged individually
+  - Dates are logged in ISO 8601 so the app can format them in the viewer's
+    time zone
+  - `merge_inquiries()` is replaced so merges use the same next follow-up rule
+*/
+
+-- Add state, outcome and updated_at to follow_ups
+ALTER TABLE follow_ups
+  ADD COLUMN IF NOT EXISTS state text NOT NULL DEFAULT 'scheduled'
+    CHECK (state IN ('scheduled', 'completed', 'missed', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS outcome text
+    CHECK (outcome IN ('spoke_to_student', 'no_answer', 'call_back_later', 'visited_campus')),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE follow_ups SET state = 'completed' WHERE follow_up_date < now();
+
+CREATE INDEX IF NOT EXISTS idx_follow_ups_state_date ON follow_ups(state, follow_up_date);
+
+DROP TRIGGER IF EXISTS update_follow_ups_updated_at ON follow_ups;
+CREATE TRIGGER update_follow_ups_updated_at
+  BEFORE UPDATE ON follow_ups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Replace follow-up write policies
+DROP POLICY IF EXISTS "Users can update own follow-ups" ON follow_ups;
+
+CREATE POLICY "Authors and admins can update follow-ups"
+  ON follow_ups FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() OR current_user_role() = 'admin')
+  WITH CHECK (created_by = auth.uid() OR current_user_role() = 'admin');
+
+CREATE POLICY "Authors and admins can delete follow-ups"
+  ON follow_ups FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() OR current_user_role() = 'admin');
+
+-- Create helper computing an inquiry's next scheduled follow-up
+CREATE OR REPLACE FUNCTION inquiry_next_follow_up(target_inquiry_id uuid)
+RETURNS timestamptz AS $$
+  SELECT min(f.follow_up_date)
+  FROM follow_ups f
+  WHERE f.inquiry_id = target_inquiry_id
+  AND f.state = 'scheduled';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_inquiry_next_follow_up()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE inquiries
+    SET next_follow_up_at = inquiry_next_follow_up(OLD.inquiry_id)
+    WHERE id = OLD.inquiry_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE inquiries
+    SET next_follow_up_at = inquiry_next_follow_up(NEW.inquiry_id)
+    WHERE id = NEW.inquiry_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_inquiry_next_follow_up ON follow_ups;
+CREATE TRIGGER refresh_inquiry_next_follow_up
+  AFTER INSERT OR UPDATE OF follow_up_date, state, inquiry_id OR DELETE ON follow_ups
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_inquiry_next_follow_up();
+
+-- Backfill inquiries whose next follow-up changes under the new rule
+UPDATE inquiries
+SET next_follow_up_at = inquiry_next_follow_up(id)
+WHERE next_follow_up_at IS DISTINCT FROM inquiry_next_follow_up(id);
+
+-- Track follow-up changes in the audit trail
+ALTER TABLE inquiry_history ADD COLUMN IF NOT EXISTS follow_up_id uuid;
+
+ALTER TABLE inquiry_history DROP CONSTRAINT IF EXISTS inquiry_history_action_check;
+ALTER TABLE inquiry_history
+  ADD CONSTRAINT inquiry_history_action_check
+  CHECK (action IN ('created', 'updated', 'merged', 'follow_up_added', 'follow_up_updated', 'follow_up_deleted'));
+
+CREATE OR REPLACE FUNCTION record_follow_up_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  key text;
+  ignored text[] := ARRAY['id', 'inquiry_id', 'created_by', 'created_at', 'updated_at', 'voice_recording_path'];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO inquiry_history (inquiry_id, follow_up_id, action, new_value, changed_by)
+    VALUES (NEW.inquiry_id, NEW.id, 'follow_up_added', to_jsonb(NEW.follow_up_date) #>> '{}', auth.uid());
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Skip follow-ups removed because their inquiry is being deleted.
+    IF EXISTS (SELECT 1 FROM inquiries WHERE id = OLD.inquiry_id) THEN
+      INSERT INTO inquiry_history (inquiry_id, follow_up_id, action, old_value, changed_by)
+      VALUES (OLD.inquiry_id, OLD.id, 'follow_up_deleted', to_jsonb(OLD.follow_up_date) #>> '{}', auth.uid());
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+
+  FOR key IN SELECT jsonb_object_keys(new_row) LOOP
+    CONTINUE WHEN key = ANY(ignored);
+    CONTINUE WHEN old_row -> key IS NOT DISTINCT FROM new_row -> key;
+
+    INSERT INTO inquiry_history (inquiry_id, follow_up_id, action, field, old_value, new_value, changed_by)
+    VALUES (NEW.inquiry_id, NEW.id, 'follow_up_updated', key, old_row ->> key, new_row ->> key, auth.uid());
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_follow_up_history ON follow_ups;
+CREATE TRIGGER record_follow_up_history
+  AFTER INSERT OR UPDATE OR DELETE ON follow_ups
+  FOR EACH ROW
+  EXECUTE FUNCTION record_follow_up_history();
+
+-- Use the scheduled-only next follow-up after merging
+CREATE OR REPLACE FUNCTION merge_inquiries(primary_id uuid, duplicate_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  dup inquiries%ROWTYPE;
+  moved integer;
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can merge inquiries' USING ERRCODE = '42501';
+  END IF;
+
+  IF primary_id = ANY(duplicate_ids) THEN
+    RAISE EXCEPTION 'An inquiry cannot be merged into itself';
+  END IF;
+
+  PERFORM 1 FROM inquiries WHERE id = primary_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inquiry % not found', primary_id;
+  END IF;
+
+  FOR dup IN
+    SELECT * FROM inquiries WHERE id = ANY(duplicate_ids) ORDER BY created_at FOR UPDATE
+  LOOP
+    UPDATE follow_ups SET inquiry_id = primary_id WHERE inquiry_id = dup.id;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+
+    UPDATE inquiries p
+    SET
+      student_name = CASE
+        WHEN length(btrim(dup.student_name)) > length(btrim(p.student_name)) THEN dup.student_name
+        ELSE p.student_name
+      END,
+      email = coalesce(nullif(btrim(p.email), ''), dup.email),
+      course_interested = coalesce(nullif(btrim(p.course_interested), ''), dup.course_interested),
+      more_input = CASE
+        WHEN nullif(btrim(dup.more_input), '') IS NULL THEN p.more_input
+        WHEN nullif(btrim(p.more_input), '') IS NULL THEN dup.more_input
+        WHEN p.more_input = dup.more_input THEN p.more_input
+        ELSE p.more_input || E'\n\n' || dup.more_input
+      END,
+      status = CASE
+        WHEN stage_rank(dup.status) > stage_rank(p.status) THEN dup.status
+        ELSE p.status
+      END,
+      assigned_to = coalesce(p.assigned_to, dup.assigned_to),
+      created_at = least(p.created_at, dup.created_at)
+    WHERE p.id = primary_id;
+
+    INSERT INTO inquiry_merges (primary_inquiry_id, merged_inquiry_id, merged_snapshot, follow_ups_moved, merged_by)
+    VALUES (primary_id, dup.id, to_jsonb(dup), moved, auth.uid());
+
+    DELETE FROM inquiries WHERE id = dup.id;
+  END LOOP;
+
+  UPDATE inquiries
+  SET next_follow_up_at = inquiry_next_follow_up(primary_id)
+  WHERE id = primary_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
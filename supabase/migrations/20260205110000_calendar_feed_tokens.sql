@@ -0,0 +1,113 @@
+/*
+  # Calendar Feed Tokens
+
+  ## Overview
+  Counselors can subscribe to their follow-ups from a phone or desktop
+  calendar. Calendar apps cannot sign in, so each user gets a secret feed
+  token that is embedded in the subscription URL and served by the `ics-feed`
+  Edge Function.
+
+  ## 1. New Tables
+  - `calendar_feed_tokens`
+    - `user_id` (uuid, primary key) - Owner of the feed, one token per user
+    - `token` (text, unique) - Random secret used in the feed URL
+    - `created_at` (timestamptz)
+    - `last_used_at` (timestamptz) - Last time a calendar app fetched the feed
+
+  ## 2. Security
+  - RLS enabled; users can only see, create and revoke their own token
+  - Revoking deletes the row, so the old URL stops working immediately
+
+  ## 3. New Functions
+  - `calendar_feed_follow_ups(feed_token)` - Returns the follow-ups on
+    inquiries assigned to the token's owner, from a week ago onwards.
+    SECURITY DEFINER and executable by `anon` so the Edge Function can serve
+    the feed without a user session; an unknown token or an inactive owner
+    returns no rows
+
+  ## 4. Important Notes
+  - Rescheduled, completed and cancelled follow-ups are picked up the next
+    time the calendar app refreshes the feed
+*/
+
+-- Create calendar_feed_tokens table
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id uuid PRIMARY KEY DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Calendar feed token policies
+CREATE POLICY "Users can view own calendar feed token"
+  ON calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own calendar feed token"
+  ON calendar_feed_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can revoke own calendar feed token"
+  ON calendar_feed_tokens FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Follow-ups served by the ICS feed
+CREATE OR REPLACE FUNCTION calendar_feed_follow_ups(feed_token text)
+RETURNS TABLE (
+  id uuid,
+  follow_up_date timestamptz,
+  notes text,
+  state text,
+  outcome text,
+  updated_at timestamptz,
+  inquiry_id uuid,
+  student_name text,
+  course_interested text,
+  contact_number text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_owner uuid;
+BEGIN
+  UPDATE calendar_feed_tokens t
+  SET last_used_at = now()
+  FROM profiles p
+  WHERE t.token = feed_token
+    AND p.id = t.user_id
+    AND p.is_active
+  RETURNING t.user_id INTO feed_owner;
+
+  IF feed_owner IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.follow_up_date,
+    f.notes,
+    f.state,
+    f.outcome,
+    f.updated_at,
+    i.id,
+    i.student_name,
+    i.course_interested,
+    i.contact_number
+  FROM follow_ups f
+  JOIN inquiries i ON i.id = f.inquiry_id
+  WHERE i.assigned_to = feed_owner
+    AND f.follow_up_date >= now() - interval '7 days'
+  ORDER BY f.follow_up_date;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION calendar_feed_follow_ups(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION calendar_feed_follow_ups(text) TO anon, authenticated;
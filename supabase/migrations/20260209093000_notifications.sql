@@ -0,0 +1,191 @@
+/*
+  # Notifications
+
+  ## Overview
+  Counselors were only finding out about new leads and due follow-ups by
+  refreshing the app. Database triggers and a scheduled job now write
+  per-user notifications, which the app shows in a bell menu and receives
+  live through Supabase Realtime.
+
+  ## 1. New Tables
+  - `notifications`
+    - `id` (uuid, primary key)
+    - `user_id` (uuid) - Recipient
+    - `type` (text) - 'inquiry_assigned', 'inquiry_unassigned',
+      'inquiry_status_changed' or 'follow_up_due'
+    - `inquiry_id` (uuid) - Inquiry the notification is about
+    - `follow_up_id` (uuid, nullable) - Follow-up for 'follow_up_due'
+    - `title` (text), `body` (text, nullable) - Text shown to the user
+    - `actor_id` (uuid, nullable) - User whose change caused the notification
+    - `read_at` (timestamptz, nullable) - When the recipient read it
+    - `created_at` (timestamptz)
+
+  ## 2. Triggers
+  - Assigning an inquiry notifies the new assignee; reassigning it also
+    notifies the previous assignee
+  - Moving an inquiry to another stage notifies its assignee
+  - Nobody is notified about their own changes
+
+  ## 3. Scheduled Job
+  - `notify_due_follow_ups()` runs every minute through pg_cron and notifies
+    the assignee of each scheduled follow-up due within 15 minutes
+  - A follow-up is announced once; rescheduling it bumps `updated_at`, so it
+    is announced again when the new time comes up
+
+  ## 4. Security
+  - RLS enabled; users can read, mark as read and delete only their own
+    notifications. Rows are only written by the SECURITY DEFINER functions
+  - The table is added to the `supabase_realtime` publication; Realtime
+    applies the same RLS policies to subscribers
+
+  ## 5. Important Notes
+  - pg_cron must be enabled for the project (Database > Extensions)
+*/
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('inquiry_assigned', 'inquiry_unassigned', 'inquiry_status_changed', 'follow_up_due')),
+  inquiry_id uuid NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+  follow_up_id uuid REFERENCES follow_ups(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  body text,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications (user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_follow_up_id ON notifications (follow_up_id) WHERE follow_up_id IS NOT NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications policies
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create trigger function notifying about assignment and stage changes
+CREATE OR REPLACE FUNCTION notify_inquiry_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor uuid := auth.uid();
+  actor_name text;
+BEGIN
+  SELECT full_name INTO actor_name FROM profiles WHERE id = actor;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM actor
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+  THEN
+    INSERT INTO notifications (user_id, type, inquiry_id, title, body, actor_id)
+    VALUES (
+      NEW.assigned_to,
+      'inquiry_assigned',
+      NEW.id,
+      'New inquiry assigned: ' || NEW.student_name,
+      NEW.course_interested || COALESCE(' · assigned by ' || actor_name, ''),
+      actor
+    );
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RETURN NULL;
+  END IF;
+
+  IF OLD.assigned_to IS NOT NULL
+    AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to
+    AND OLD.assigned_to IS DISTINCT FROM actor
+  THEN
+    INSERT INTO notifications (user_id, type, inquiry_id, title, body, actor_id)
+    VALUES (
+      OLD.assigned_to,
+      'inquiry_unassigned',
+      NEW.id,
+      'Inquiry reassigned: ' || NEW.student_name,
+      COALESCE('Now assigned to ' || (SELECT full_name FROM profiles WHERE id = NEW.assigned_to), 'No longer assigned to anyone'),
+      actor
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM actor
+    -- A reassignment already tells the new assignee about the inquiry.
+    AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to
+  THEN
+    INSERT INTO notifications (user_id, type, inquiry_id, title, body, actor_id)
+    VALUES (
+      NEW.assigned_to,
+      'inquiry_status_changed',
+      NEW.id,
+      NEW.student_name || ' moved to ' || history_display_value('status', NEW.status),
+      'From ' || history_display_value('status', OLD.status) || COALESCE(' by ' || actor_name, ''),
+      actor
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_inquiry_changes ON inquiries;
+CREATE TRIGGER notify_inquiry_changes
+  AFTER INSERT OR UPDATE OF assigned_to, status ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_inquiry_changes();
+
+-- Create function announcing follow-ups due within 15 minutes
+CREATE OR REPLACE FUNCTION notify_due_follow_ups()
+RETURNS integer AS $$
+DECLARE
+  created integer;
+BEGIN
+  INSERT INTO notifications (user_id, type, inquiry_id, follow_up_id, title, body)
+  SELECT
+    i.assigned_to,
+    'follow_up_due',
+    i.id,
+    f.id,
+    'Follow-up due soon: ' || i.student_name,
+    f.notes
+  FROM follow_ups f
+  JOIN inquiries i ON i.id = f.inquiry_id
+  WHERE f.state = 'scheduled'
+    AND i.assigned_to IS NOT NULL
+    AND f.follow_up_date BETWEEN now() AND now() + interval '15 minutes'
+    AND NOT EXISTS (
+      SELECT 1 FROM notifications n
+      WHERE n.follow_up_id = f.id
+        AND n.type = 'follow_up_due'
+        AND n.created_at >= f.updated_at
+    );
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION notify_due_follow_ups() FROM PUBLIC;
+
+-- Schedule the due follow-up check every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-due-follow-ups', '* * * * *', 'SELECT notify_due_follow_ups()');
+
+-- Stream new notifications to the app
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,18 @@
+/*
+  # Realtime Inquiries and Follow-ups
+
+  ## Overview
+  The inquiry list, the inquiry details modal and the dashboard now listen
+  for changes made by other users instead of going stale until reloaded.
+
+  ## 1. Publication
+  - `inquiries` and `follow_ups` are added to the `supabase_realtime`
+    publication
+
+  ## 2. Important Notes
+  - Realtime applies the existing RLS policies to every subscriber, so
+    employees only receive changes to inquiries assigned to them
+  - Delete events only carry the primary key of the removed row
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE inquiries, follow_ups;
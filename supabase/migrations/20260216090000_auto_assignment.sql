@@ -0,0 +1,220 @@
+/*
+  # Automatic Lead Assignment
+
+  ## Overview
+  New inquiries can be assigned to a counselor automatically when they are
+  created, whether from the Add Inquiry form, a spreadsheet import or any
+  other insert. Admins choose the strategy in Settings.
+
+  ## 1. New Tables
+  - `app_settings`
+    - `key` (text, primary key)
+    - `value` (jsonb)
+    - `updated_at` (timestamptz), `updated_by` (uuid)
+    - Seeded with `auto_assignment`:
+      `{"strategy": "off", "fallback": "none"}`
+  - `course_assignments`
+    - `id` (uuid, primary key)
+    - `course` (text) - Course name, matched case-insensitively against
+      `inquiries.course_interested`
+    - `counselor_id` (uuid) - Counselor who takes inquiries for the course
+  - `assignment_rotation`
+    - `user_id` (uuid, primary key), `last_assigned_at` (timestamptz)
+    - Internal round-robin bookkeeping; not readable by clients
+
+  ## 2. Changes to `profiles`
+  - `on_leave` (boolean, default false) - Counselors on leave are skipped
+
+  ## 3. Strategies
+  - `round_robin` - The eligible counselor who was auto-assigned least
+    recently gets the next inquiry
+  - `least_open` - The eligible counselor with the fewest inquiries in an
+    open pipeline stage
+  - `course` - An eligible counselor mapped to the inquiry's course, the one
+    with the fewest open inquiries if several are mapped. Inquiries for
+    unmapped courses use the `fallback` strategy ('round_robin',
+    'least_open' or 'none')
+  - Eligible counselors are active employees who are not on leave
+
+  ## 4. Security
+  - RLS enabled on all new tables
+  - Authenticated users can read settings and course mappings; only admins
+    can change them
+
+  ## 5. Important Notes
+  - The BEFORE INSERT trigger only fills `assigned_to` when it is empty, so
+    explicit assignments (for example an import's Assignee column) win
+  - Picks are serialized with an advisory lock so concurrent inserts and
+    multi-row imports rotate correctly
+*/
+
+-- Create app_settings table
+CREATE TABLE IF NOT EXISTS app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view app settings"
+  ON app_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert app settings"
+  ON app_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE POLICY "Only admins can update app settings"
+  ON app_settings FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP TRIGGER IF EXISTS update_app_settings_updated_at ON app_settings;
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO app_settings (key, value) VALUES
+  ('auto_assignment', '{"strategy": "off", "fallback": "none"}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Create course_assignments table
+CREATE TABLE IF NOT EXISTS course_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course text NOT NULL CHECK (length(trim(course)) > 0),
+  counselor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_assignments_course_counselor
+  ON course_assignments (lower(trim(course)), counselor_id);
+
+ALTER TABLE course_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view course assignments"
+  ON course_assignments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert course assignments"
+  ON course_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE POLICY "Only admins can delete course assignments"
+  ON course_assignments FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Create assignment_rotation table
+CREATE TABLE IF NOT EXISTS assignment_rotation (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  last_assigned_at timestamptz NOT NULL
+);
+
+ALTER TABLE assignment_rotation ENABLE ROW LEVEL SECURITY;
+
+-- Add on_leave to profiles
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS on_leave boolean NOT NULL DEFAULT false;
+
+-- Create function counting a counselor's open inquiries
+CREATE OR REPLACE FUNCTION open_inquiry_count(counselor uuid)
+RETURNS bigint AS $$
+  SELECT count(*)
+  FROM inquiries i
+  JOIN pipeline_stages s ON s.key = i.status
+  WHERE i.assigned_to = counselor
+    AND s.kind = 'open';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function picking the counselor for a new inquiry
+CREATE OR REPLACE FUNCTION pick_inquiry_assignee(inquiry_course text)
+RETURNS uuid AS $$
+DECLARE
+  settings jsonb;
+  strategy text;
+  picked uuid;
+BEGIN
+  SELECT value INTO settings FROM app_settings WHERE key = 'auto_assignment';
+  strategy := COALESCE(settings ->> 'strategy', 'off');
+
+  IF strategy = 'off' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('pick_inquiry_assignee'));
+
+  IF strategy = 'course' THEN
+    SELECT p.id INTO picked
+    FROM course_assignments ca
+    JOIN profiles p ON p.id = ca.counselor_id
+    WHERE lower(trim(ca.course)) = lower(trim(inquiry_course))
+      AND p.role = 'employee'
+      AND p.is_active
+      AND NOT p.on_leave
+    ORDER BY open_inquiry_count(p.id), p.full_name
+    LIMIT 1;
+
+    IF picked IS NOT NULL THEN
+      RETURN picked;
+    END IF;
+
+    strategy := COALESCE(settings ->> 'fallback', 'none');
+  END IF;
+
+  IF strategy = 'least_open' THEN
+    SELECT p.id INTO picked
+    FROM profiles p
+    WHERE p.role = 'employee'
+      AND p.is_active
+      AND NOT p.on_leave
+    ORDER BY open_inquiry_count(p.id), p.full_name
+    LIMIT 1;
+  ELSIF strategy = 'round_robin' THEN
+    SELECT p.id INTO picked
+    FROM profiles p
+    LEFT JOIN assignment_rotation r ON r.user_id = p.id
+    WHERE p.role = 'employee'
+      AND p.is_active
+      AND NOT p.on_leave
+    ORDER BY r.last_assigned_at NULLS FIRST, p.full_name
+    LIMIT 1;
+  END IF;
+
+  IF picked IS NOT NULL THEN
+    -- clock_timestamp() rather than now(), which is fixed for the whole
+    -- transaction and would not advance between rows of one import.
+    INSERT INTO assignment_rotation (user_id, last_assigned_at)
+    VALUES (picked, clock_timestamp())
+    ON CONFLICT (user_id) DO UPDATE SET last_assigned_at = EXCLUDED.last_assigned_at;
+  END IF;
+
+  RETURN picked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION pick_inquiry_assignee(text) FROM PUBLIC;
+
+-- Create trigger function assigning new inquiries
+CREATE OR REPLACE FUNCTION auto_assign_inquiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assigned_to IS NULL THEN
+    NEW.assigned_to := pick_inquiry_assignee(NEW.course_interested);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS auto_assign_inquiry ON inquiries;
+CREATE TRIGGER auto_assign_inquiry
+  BEFORE INSERT ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_assign_inquiry();
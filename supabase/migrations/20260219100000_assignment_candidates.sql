@@ -0,0 +1,94 @@
+/*
+  # Assignment Candidates
+
+  ## Overview
+  The assign dialog now shows how busy and how effective each counselor is,
+  so admins and co-leaders can spread inquiries sensibly instead of picking
+  from a bare list of names.
+
+  ## 1. New Functions
+  - `assignment_candidates(inquiry_courses text[])` returns one row per active
+    profile with:
+    - `open_count` - Inquiries assigned to them in an open pipeline stage
+    - `overdue_count` - Scheduled follow-ups past their date on inquiries
+      assigned to them
+    - `course_won`, `course_closed` - Their won and closed (won or lost)
+      inquiries for any of the given courses, matched case-insensitively
+    - `last_active_at` - Latest of their last sign-in, last inquiry change
+      and last follow-up
+
+  ## 2. Security
+  - Only admins and co-leaders may call the function; it reads every
+    counselor's inquiries and `auth.users`, so it runs as SECURITY DEFINER
+
+  ## 3. Important Notes
+  - The suggested order is computed in the app from these figures
+*/
+
+-- Create function listing assignment candidates with their workload
+CREATE OR REPLACE FUNCTION assignment_candidates(inquiry_courses text[])
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  role text,
+  on_leave boolean,
+  open_count bigint,
+  overdue_count bigint,
+  course_won bigint,
+  course_closed bigint,
+  last_active_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user_role() NOT IN ('admin', 'co_leader') THEN
+    RAISE EXCEPTION 'Only admins and co-leaders can assign inquiries' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.role,
+    p.on_leave,
+    open_inquiry_count(p.id),
+    (
+      SELECT count(*)
+      FROM follow_ups f
+      JOIN inquiries i ON i.id = f.inquiry_id
+      WHERE i.assigned_to = p.id
+        AND f.state = 'scheduled'
+        AND f.follow_up_date < now()
+    ),
+    (
+      SELECT count(*)
+      FROM inquiries i
+      JOIN pipeline_stages s ON s.key = i.status
+      WHERE i.assigned_to = p.id
+        AND s.kind = 'won'
+        AND lower(trim(i.course_interested)) IN (SELECT lower(trim(c)) FROM unnest(inquiry_courses) c)
+    ),
+    (
+      SELECT count(*)
+      FROM inquiries i
+      JOIN pipeline_stages s ON s.key = i.status
+      WHERE i.assigned_to = p.id
+        AND s.kind IN ('won', 'lost')
+        AND lower(trim(i.course_interested)) IN (SELECT lower(trim(c)) FROM unnest(inquiry_courses) c)
+    ),
+    GREATEST(
+      (SELECT u.last_sign_in_at FROM auth.users u WHERE u.id = p.id),
+      (SELECT max(h.changed_at) FROM inquiry_history h WHERE h.changed_by = p.id),
+      (SELECT max(f.created_at) FROM follow_ups f WHERE f.created_by = p.id)
+    )
+  FROM profiles p
+  WHERE p.is_active
+  ORDER BY p.full_name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION assignment_candidates(text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION assignment_candidates(text[]) TO authenticated;
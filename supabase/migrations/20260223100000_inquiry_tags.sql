@@ -0,0 +1,71 @@
+/*
+  # Inquiry Tags
+
+  ## Overview
+  Inquiries can carry free-form tags (for example an event or campaign
+  name), added and removed in bulk from the inquiry list.
+
+  ## 1. Changes to `inquiries`
+  - `tags` (text[], default empty) - Lower-case tags, kept sorted and unique
+
+  ## 2. New Functions
+  - `tag_inquiries(inquiry_ids uuid[], add_tags text[], remove_tags text[])`
+    adds and removes tags on several inquiries in one statement and returns
+    the ids it updated
+
+  ## 3. Security
+  - `tag_inquiries()` runs as the caller, so the existing inquiry UPDATE
+    policies decide which rows it may change; rows the caller cannot update
+    are left out of the result
+
+  ## 4. Important Notes
+  - `history_display_value()` now shows tag changes as a comma-separated list
+*/
+
+-- Add tags to inquiries
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_tags ON inquiries USING gin(tags);
+
+-- Create function adding and removing tags on several inquiries
+CREATE OR REPLACE FUNCTION tag_inquiries(inquiry_ids uuid[], add_tags text[], remove_tags text[])
+RETURNS TABLE (id uuid) AS $$
+  UPDATE inquiries i
+  SET tags = ARRAY(
+    SELECT DISTINCT lower(trim(t))
+    FROM unnest(i.tags || add_tags) t
+    WHERE length(trim(t)) > 0
+      AND lower(trim(t)) <> ALL(SELECT lower(trim(r)) FROM unnest(remove_tags) r)
+    ORDER BY 1
+  )
+  WHERE i.id = ANY(inquiry_ids)
+  RETURNING i.id;
+$$ LANGUAGE sql SECURITY INVOKER SET search_path = public;
+
+-- Show tag lists rather than JSON arrays in the audit trail
+CREATE OR REPLACE FUNCTION history_display_value(field text, value text)
+RETURNS text AS $$
+BEGIN
+  IF value IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF field = 'assigned_to' THEN
+    RETURN coalesce((SELECT full_name FROM profiles WHERE id = value::uuid), value);
+  END IF;
+
+  IF field = 'status' THEN
+    RETURN coalesce((SELECT label FROM pipeline_stages WHERE key = value), value);
+  END IF;
+
+  IF field = 'loss_reason_id' THEN
+    RETURN coalesce((SELECT label FROM loss_reasons WHERE id = value::uuid), value);
+  END IF;
+
+  IF field = 'tags' THEN
+    RETURN nullif(array_to_string(ARRAY(SELECT jsonb_array_elements_text(value::jsonb)), ', '), '');
+  END IF;
+
+  RETURN value;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
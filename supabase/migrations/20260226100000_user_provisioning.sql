@@ -0,0 +1,118 @@
+/*
+  # Server-side User Provisioning
+
+  ## Overview
+  Admins used to create users with `auth.signUp()` from their own browser,
+  which could replace the admin's session, and tried to delete users with the
+  anon key, which always failed. Users are now created, re-roled and removed
+  by the `manage-users` Edge Function using the service role.
+
+  ## 1. New Triggers
+  - `create_profile_for_new_user` on `auth.users` inserts the `profiles` row
+    in the same transaction as the auth user, using `full_name` from the user
+    metadata and `role` / `created_by` from the app metadata. If the profile
+    cannot be created, the auth user is not created either
+
+  ## 2. Changes to Existing Functions
+  - `notify_inquiry_changes()` no longer notifies a previous assignee whose
+    profile is gone. Deleting a user unassigns their inquiries through
+    `ON DELETE SET NULL`, and the notification for the removed user would
+    otherwise violate the foreign key and block the deletion
+
+  ## 3. Important Notes
+  - App metadata can only be set with the service role, so self-service
+    sign-ups (if enabled) still get no profile and cannot use the app
+*/
+
+-- Create profiles for users provisioned by the manage-users function
+CREATE OR REPLACE FUNCTION create_profile_for_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.raw_app_meta_data ->> 'role' IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, role, created_by, is_active)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email),
+    NEW.raw_app_meta_data ->> 'role',
+    (NEW.raw_app_meta_data ->> 'created_by')::uuid,
+    true
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_profile_for_new_user ON auth.users;
+CREATE TRIGGER create_profile_for_new_user
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_profile_for_new_user();
+
+-- Skip notifications for assignees who are being deleted
+CREATE OR REPLACE FUNCTION notify_inquiry_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor uuid := auth.uid();
+  actor_name text;
+BEGIN
+  SELECT full_name INTO actor_name FROM profiles WHERE id = actor;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM actor
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+  THEN
+    INSERT INTO notifications (user_id, type, inquiry_id, title, body, actor_id)
+    VALUES (
+      NEW.assigned_to,
+      'inquiry_assigned',
+      NEW.id,
+      'New inquiry assigned: ' || NEW.student_name,
+      NEW.course_interested || COALESCE(' · assigned by ' || actor_name, ''),
+      actor
+    );
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RETURN NULL;
+  END IF;
+
+  IF OLD.assigned_to IS NOT NULL
+    AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to
+    AND OLD.assigned_to IS DISTINCT FROM actor
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = OLD.assigned_to)
+  THEN
+    INSERT INTO notifications (user_id, type, inquiry_id, title, body, actor_id)
+    VALUES (
+      OLD.assigned_to,
+      'inquiry_unassigned',
+      NEW.id,
+      'Inquiry reassigned: ' || NEW.student_name,
+      COALESCE('Now assigned to ' || (SELECT full_name FROM profiles WHERE id = NEW.assigned_to), 'No longer assigned to anyone'),
+      actor
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM actor
+    -- A reassignment already tells the new assignee about the inquiry.
+    AND NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to
+  THEN
+    INSERT INTO notifications (user_id, type, inquiry_id, title, body, actor_id)
+    VALUES (
+      NEW.assigned_to,
+      'inquiry_status_changed',
+      NEW.id,
+      NEW.student_name || ' moved to ' || history_display_value('status', NEW.status),
+      'From ' || history_display_value('status', OLD.status) || COALESCE(' by ' || actor_name, ''),
+      actor
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,110 @@
+/*
+  # User Invitations
+
+  ## Overview
+  Admins no longer choose passwords for new users. They enter a name, email
+  and role, and the `manage-users` Edge Function creates an inactive profile
+  and emails an invite link. The invitee sets their own password on the
+  `/accept-invite` page, which activates the profile.
+
+  ## 1. New Tables
+  - `user_invitations`
+    - `user_id` (uuid, primary key) - Invited profile
+    - `invited_by` (uuid, nullable) - Admin who sent the latest invite
+    - `sent_at` (timestamptz) - When the latest invite email was sent
+    - `expires_at` (timestamptz) - When the latest invite stops working
+    - `accepted_at` (timestamptz, nullable) - When the invitee set a password
+
+  ## 2. Changes to Existing Functions
+  - `create_profile_for_new_user()` creates invited users' profiles as
+    inactive (`invited` flag in the app metadata)
+
+  ## 3. New Functions
+  - `accept_invitation()` marks the caller's invitation accepted and
+    activates their profile. Returns 'accepted', 'expired' or 'not_found'
+
+  ## 4. Security
+  - RLS enabled; admins can read every invitation and invitees their own.
+    Rows are only written by the Edge Function and `accept_invitation()`
+
+  ## 5. Important Notes
+  - Resending an invite moves `sent_at` and `expires_at` forward
+  - Revoking a pending invite deletes the invited user altogether
+*/
+
+-- Create user_invitations table
+CREATE TABLE IF NOT EXISTS user_invitations (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz
+);
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invitations"
+  ON user_invitations FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+CREATE POLICY "Users can view own invitation"
+  ON user_invitations FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create invited users' profiles as inactive
+CREATE OR REPLACE FUNCTION create_profile_for_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.raw_app_meta_data ->> 'role' IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, role, created_by, is_active)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email),
+    NEW.raw_app_meta_data ->> 'role',
+    (NEW.raw_app_meta_data ->> 'created_by')::uuid,
+    NOT COALESCE((NEW.raw_app_meta_data ->> 'invited')::boolean, false)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function accepting the caller's invitation
+CREATE OR REPLACE FUNCTION accept_invitation()
+RETURNS text AS $$
+DECLARE
+  invitation user_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+  FROM user_invitations
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  -- Accepting twice is harmless, so a retried password form still works.
+  IF invitation.accepted_at IS NOT NULL THEN
+    RETURN 'accepted';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RETURN 'expired';
+  END IF;
+
+  UPDATE user_invitations SET accepted_at = now() WHERE user_id = invitation.user_id;
+  UPDATE profiles SET is_active = true WHERE id = invitation.user_id;
+
+  RETURN 'accepted';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION accept_invitation() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_invitation() TO authenticated;
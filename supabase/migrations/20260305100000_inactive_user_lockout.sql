@@ -0,0 +1,125 @@
+/*
+  # Inactive User Lockout
+
+  ## Overview
+  Deactivating a user only flipped `profiles.is_active`; nothing checked it,
+  so a deactivated counselor kept full access through their session. Every
+  table now refuses reads and writes from inactive users, and role checks
+  treat them as having no role.
+
+  ## 1. New Functions
+  - `current_user_is_active()` - Whether the caller has an active profile
+
+  ## 2. Changes to Existing Functions
+  - `current_user_role()` returns NULL for inactive users, so role-based
+    policies and `merge_inquiries()` refuse them too.
+    `assignment_candidates()` only refuses them since
+    20260323100000_assignment_candidates_null_role.sql; its `NOT IN` check
+    let a NULL role through
+
+  ## 3. Security
+  - A restrictive "Inactive users have no access" policy on every table
+    with RLS policies. Restrictive policies are combined with AND, so the
+    existing policies, including those of the base schema, only grant access
+    to active users
+  - Inactive users can still read their own profile and invitation, so the
+    app can tell a deactivated user from an invitee who has not set a
+    password yet
+  - Voice recordings in storage follow automatically: their policies only
+    allow objects of inquiries the caller can select
+
+  ## 4. Publication
+  - `profiles` is added to the `supabase_realtime` publication so the app
+    can end a session as soon as the user is deactivated
+
+  ## 5. Important Notes
+  - `calendar_feed_follow_ups()` already returns nothing for inactive users
+*/
+
+-- Create helper returning whether the caller is active
+CREATE OR REPLACE FUNCTION current_user_is_active()
+RETURNS boolean AS $$
+  SELECT COALESCE((SELECT is_active FROM profiles WHERE id = auth.uid()), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Treat inactive users as having no role
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid() AND is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Deny inactive users on every table
+CREATE POLICY "Inactive users have no access"
+  ON profiles AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active() OR id = auth.uid())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON user_invitations AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active() OR user_id = auth.uid())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON inquiries AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON follow_ups AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON inquiry_merges AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON inquiry_history AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON pipeline_stages AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON loss_reasons AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON calendar_feed_tokens AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON notifications AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON app_settings AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+CREATE POLICY "Inactive users have no access"
+  ON course_assignments AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_is_active())
+  WITH CHECK (current_user_is_active());
+
+-- Let sessions notice deactivation
+ALTER PUBLICATION supabase_realtime ADD TABLE profiles;
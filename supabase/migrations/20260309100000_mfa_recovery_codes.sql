@@ -0,0 +1,123 @@
+/*
+  # Two-factor Authentication Recovery Codes
+
+  ## Overview
+  Users can protect their account with a TOTP authenticator app through
+  Supabase Auth MFA. This migration adds one-time recovery codes for users
+  who lose their authenticator, and the `mfa_required_roles` setting that
+  makes two-factor authentication mandatory per role.
+
+  ## 1. New Tables
+  - `mfa_recovery_codes`
+    - `id` (uuid, primary key)
+    - `user_id` (uuid) - Owner of the code
+    - `code_hash` (text) - SHA-256 of the normalized code; the code itself
+      is only shown once, when generated
+    - `used_at` (timestamptz, nullable) - When the code was redeemed
+    - `created_at` (timestamptz)
+
+  ## 2. New Functions
+  - `generate_mfa_recovery_codes()` replaces the caller's codes with ten
+    new ones and returns them. Requires a session verified with the
+    authenticator (AAL2)
+  - `mfa_recovery_codes_remaining()` - How many unused codes the caller has
+  - `consume_mfa_recovery_code(target_user, code)` marks a matching unused
+    code as used. Only callable by the `mfa-recovery` Edge Function, which
+    then removes the user's authenticator so they can sign in and enroll a
+    new one
+
+  ## 3. Security
+  - RLS enabled with no policies; codes are only reachable through the
+    functions above
+
+  ## 4. Important Notes
+  - `app_settings.mfa_required_roles` holds `{ "roles": [...] }`. The app
+    sends users in those roles to set up an authenticator before anything
+    else, and admin-only pages always require a verified session
+  - Codes carry 40 random bits, so an unsalted hash is enough and lets a
+    code be looked up directly
+*/
+
+-- Create mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create helper hashing a recovery code as typed by the user
+CREATE OR REPLACE FUNCTION hash_mfa_recovery_code(code text)
+RETURNS text AS $$
+  SELECT encode(sha256(convert_to(lower(regexp_replace(code, '[^0-9A-Za-z]', '', 'g')), 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION hash_mfa_recovery_code(text) FROM PUBLIC;
+
+-- Create function issuing new recovery codes
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS SETOF text AS $$
+DECLARE
+  code text;
+BEGIN
+  IF NOT current_user_is_active() OR COALESCE(auth.jwt() ->> 'aal', '') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator app before generating recovery codes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    code := substr(replace(gen_random_uuid()::text, '-', ''), 1, 10);
+    code := substr(code, 1, 5) || '-' || substr(code, 6, 5);
+
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), hash_mfa_recovery_code(code));
+
+    RETURN NEXT code;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION generate_mfa_recovery_codes() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION generate_mfa_recovery_codes() TO authenticated;
+
+-- Create function counting the caller's unused recovery codes
+CREATE OR REPLACE FUNCTION mfa_recovery_codes_remaining()
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM mfa_recovery_codes
+  WHERE user_id = auth.uid() AND used_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION mfa_recovery_codes_remaining() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mfa_recovery_codes_remaining() TO authenticated;
+
+-- Create function redeeming a recovery code
+CREATE OR REPLACE FUNCTION consume_mfa_recovery_code(target_user uuid, code text)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE mfa_recovery_codes
+  SET used_at = now()
+  WHERE id = (
+    SELECT id FROM mfa_recovery_codes
+    WHERE user_id = target_user
+      AND used_at IS NULL
+      AND code_hash = hash_mfa_recovery_code(code)
+    LIMIT 1
+    FOR UPDATE
+  );
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION consume_mfa_recovery_code(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION consume_mfa_recovery_code(uuid, text) TO service_role;
@@ -0,0 +1,41 @@
+/*
+  # Assigned Counselors Can Update Follow-ups
+
+  ## Overview
+  Counselors complete and reschedule follow-ups from the agenda and calendar,
+  including ones a co-leader or admin scheduled on an inquiry assigned to
+  them. Until now only the author or an admin could update a follow-up.
+
+  ## 1. Security
+  - "Authors and admins can update follow-ups" is replaced by a policy that
+    also lets the counselor the inquiry is assigned to update it
+  - The check applies to the updated row too, so a follow-up cannot be moved
+    onto an inquiry the counselor is not assigned to
+
+  ## 2. Important Notes
+  - Deleting a follow-up is still limited to its author and admins
+*/
+
+DROP POLICY IF EXISTS "Authors and admins can update follow-ups" ON follow_ups;
+
+CREATE POLICY "Authors, assignees and admins can update follow-ups"
+  ON follow_ups FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR current_user_role() = 'admin'
+    OR EXISTS (
+      SELECT 1 FROM inquiries i
+      WHERE i.id = follow_ups.inquiry_id
+      AND i.assigned_to = auth.uid()
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid()
+    OR current_user_role() = 'admin'
+    OR EXISTS (
+      SELECT 1 FROM inquiries i
+      WHERE i.id = follow_ups.inquiry_id
+      AND i.assigned_to = auth.uid()
+    )
+  );
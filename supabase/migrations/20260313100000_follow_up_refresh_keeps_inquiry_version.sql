@@ -0,0 +1,52 @@
+/*
+  # Follow-up Changes Keep the Inquiry Version
+
+  ## Overview
+  Saving an inquiry is conditional on its `updated_at`, but every follow-up
+  insert, update and delete rewrote the inquiry's `next_follow_up_at`, which
+  moved `updated_at` forward. Adding or completing a follow-up and then
+  saving the inquiry in the same modal was reported as a conflict with
+  nothing to resolve.
+
+  ## 1. Changes to `refresh_inquiry_next_follow_up()`
+  - Skips the write when `next_follow_up_at` would not change
+
+  ## 2. Changes to the `update_inquiries_updated_at` trigger
+  - No longer fires for updates that change `next_follow_up_at`. That column
+    is derived from `follow_ups` and is only ever written on its own, by
+    this trigger function and by `merge_inquiries()`
+
+  ## 3. Important Notes
+  - Realtime still reports these updates; the app treats an update with an
+    unchanged `updated_at` as a refresh of derived columns, not an edit
+*/
+
+-- Only touch the inquiry when its next follow-up actually moves
+CREATE OR REPLACE FUNCTION refresh_inquiry_next_follow_up()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE inquiries
+    SET next_follow_up_at = inquiry_next_follow_up(OLD.inquiry_id)
+    WHERE id = OLD.inquiry_id
+    AND next_follow_up_at IS DISTINCT FROM inquiry_next_follow_up(OLD.inquiry_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE inquiries
+    SET next_follow_up_at = inquiry_next_follow_up(NEW.inquiry_id)
+    WHERE id = NEW.inquiry_id
+    AND next_follow_up_at IS DISTINCT FROM inquiry_next_follow_up(NEW.inquiry_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Leave updated_at alone when only the derived next follow-up changes
+DROP TRIGGER IF EXISTS update_inquiries_updated_at ON inquiries;
+CREATE TRIGGER update_inquiries_updated_at
+  BEFORE UPDATE ON inquiries
+  FOR EACH ROW
+  WHEN (OLD.next_follow_up_at IS NOT DISTINCT FROM NEW.next_follow_up_at)
+  EXECUTE FUNCTION update_updated_at_column();
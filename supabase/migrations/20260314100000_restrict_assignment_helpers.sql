@@ -0,0 +1,24 @@
+/*
+  # Restrict Assignment Helper Functions
+
+  ## Overview
+  `open_inquiry_count()` runs as SECURITY DEFINER and kept its default
+  EXECUTE grant, so any signed-in user could read any counselor's open
+  inquiry count regardless of the inquiries RLS policies.
+
+  ## 1. Security
+  - EXECUTE on `open_inquiry_count(uuid)` is revoked from everyone; it is
+    only called from `pick_inquiry_assignee()` and `assignment_candidates()`,
+    which run as the function owner
+  - EXECUTE on `pick_inquiry_assignee(text)` is also revoked from `anon` and
+    `authenticated`; it is only called by the auto-assignment trigger
+
+  ## 2. Important Notes
+  - Supabase grants EXECUTE on new functions in `public` to `anon` and
+    `authenticated` directly, so revoking from PUBLIC alone does not remove
+    their access
+*/
+
+REVOKE ALL ON FUNCTION open_inquiry_count(uuid) FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION pick_inquiry_assignee(text) FROM PUBLIC, anon, authenticated;
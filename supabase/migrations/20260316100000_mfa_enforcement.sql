@@ -0,0 +1,186 @@
+/*
+  # Two-factor Enforcement in RLS
+
+  ## Overview
+  Two-factor authentication was only enforced by the app's routes. A session
+  that had only entered a password could still read and write through the
+  API, including clearing `mfa_required_roles` to switch the requirement
+  off. The database now checks the session's assurance level itself.
+
+  ## 1. New Functions
+  - `current_session_is_aal2()` - Whether the caller's session was verified
+    with an authenticator code
+  - `current_user_mfa_satisfied()` - False only when the caller's role is
+    listed in `app_settings.mfa_required_roles` and the session is not AAL2
+
+  ## 2. Changes to Existing Functions
+  - `current_user_role()` returns NULL when `current_user_mfa_satisfied()`
+    is false, so role-based policies and `merge_inquiries()` refuse those
+    sessions. `assignment_candidates()` only refuses them since
+    20260323100000_assignment_candidates_null_role.sql
+
+  ## 3. Security
+  - A restrictive "Two-factor required for role" policy on every table
+    holding inquiry data, for all commands
+  - Restrictive "Admin inserts/updates/deletes require two-factor" policies
+    on `profiles`, `app_settings`, `pipeline_stages`,
+    `loss_reasons` and `course_assignments`. Only admins write these, from
+    pages that always require a verified session
+  - `profiles`, `user_invitations`, `app_settings`, `pipeline_stages` and
+    `loss_reasons` stay readable, so a user who still has to set up or enter
+    their authenticator can load their profile and the policy
+
+  ## 4. Important Notes
+  - The `manage-users` Edge Function already requires AAL2 and uses the
+    service role key, so it is not affected by these policies
+*/
+
+-- Create helper returning whether the session passed the authenticator step
+CREATE OR REPLACE FUNCTION current_session_is_aal2()
+RETURNS boolean AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', '') = 'aal2';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Create helper checking the caller against the per-role requirement
+CREATE OR REPLACE FUNCTION current_user_mfa_satisfied()
+RETURNS boolean AS $$
+  SELECT current_session_is_aal2() OR NOT EXISTS (
+    SELECT 1
+    FROM app_settings s
+    JOIN profiles p ON p.id = auth.uid()
+    WHERE s.key = 'mfa_required_roles'
+      AND s.value -> 'roles' ? p.role
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Treat sessions owing an authenticator code as having no role
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid() AND is_active AND current_user_mfa_satisfied();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Deny inquiry data to sessions owing an authenticator code
+
+CREATE POLICY "Two-factor required for role"
+  ON inquiries AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+CREATE POLICY "Two-factor required for role"
+  ON follow_ups AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+CREATE POLICY "Two-factor required for role"
+  ON inquiry_merges AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+CREATE POLICY "Two-factor required for role"
+  ON inquiry_history AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+CREATE POLICY "Two-factor required for role"
+  ON notifications AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+CREATE POLICY "Two-factor required for role"
+  ON calendar_feed_tokens AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+CREATE POLICY "Two-factor required for role"
+  ON course_assignments AS RESTRICTIVE FOR ALL
+  TO authenticated
+  USING (current_user_mfa_satisfied())
+  WITH CHECK (current_user_mfa_satisfied());
+
+-- Require a verified session for admin-only changes
+
+CREATE POLICY "Admin inserts require two-factor"
+  ON profiles AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin updates require two-factor"
+  ON profiles AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (current_session_is_aal2())
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin deletes require two-factor"
+  ON profiles AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (current_session_is_aal2());
+
+CREATE POLICY "Admin inserts require two-factor"
+  ON app_settings AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin updates require two-factor"
+  ON app_settings AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (current_session_is_aal2())
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin deletes require two-factor"
+  ON app_settings AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (current_session_is_aal2());
+
+CREATE POLICY "Admin inserts require two-factor"
+  ON pipeline_stages AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin updates require two-factor"
+  ON pipeline_stages AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (current_session_is_aal2())
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin deletes require two-factor"
+  ON pipeline_stages AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (current_session_is_aal2());
+
+CREATE POLICY "Admin inserts require two-factor"
+  ON loss_reasons AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin updates require two-factor"
+  ON loss_reasons AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (current_session_is_aal2())
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin deletes require two-factor"
+  ON loss_reasons AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (current_session_is_aal2());
+
+CREATE POLICY "Admin inserts require two-factor"
+  ON course_assignments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin updates require two-factor"
+  ON course_assignments AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (current_session_is_aal2())
+  WITH CHECK (current_session_is_aal2());
+
+CREATE POLICY "Admin deletes require two-factor"
+  ON course_assignments AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (current_session_is_aal2());
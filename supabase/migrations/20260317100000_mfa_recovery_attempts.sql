@@ -0,0 +1,108 @@
+/*
+  # Recovery Code Attempt Limit
+
+  ## Overview
+  Redeeming a recovery code removes the user's authenticator, and the
+  `mfa-recovery` Edge Function accepts any session that has passed the
+  password step. Failed attempts were not counted, so someone who knew the
+  password could keep guessing codes. Attempts are now limited per user.
+
+  ## 1. New Tables
+  - `mfa_recovery_attempts`
+    - `user_id` (uuid, primary key) - User the attempts were made for
+    - `failed_count` (integer) - Failed attempts since the last success or
+      lockout
+    - `locked_until` (timestamptz, nullable) - No codes are accepted before
+      this time
+    - `updated_at` (timestamptz)
+
+  ## 2. Changes to Existing Functions
+  - `consume_mfa_recovery_code(target_user, code)` now returns 'used',
+    'invalid' or 'locked'. Five failed attempts lock recovery for the user
+    for 15 minutes; a successful attempt resets the count
+
+  ## 3. Security
+  - RLS enabled with no policies; attempts are only reachable through
+    `consume_mfa_recovery_code()`
+  - EXECUTE on `consume_mfa_recovery_code()` and `hash_mfa_recovery_code()`
+    is revoked from `anon` and `authenticated` as well. Supabase grants them
+    EXECUTE on new functions directly, so revoking from PUBLIC left the
+    recovery function callable without going through the Edge Function
+
+  ## 4. Important Notes
+  - The function's return type changes, so it is dropped and recreated
+*/
+
+-- Create mfa_recovery_attempts table
+CREATE TABLE IF NOT EXISTS mfa_recovery_attempts (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  failed_count integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Replace the recovery function with one that counts failures
+DROP FUNCTION IF EXISTS consume_mfa_recovery_code(uuid, text);
+
+CREATE FUNCTION consume_mfa_recovery_code(target_user uuid, code text)
+RETURNS text AS $$
+DECLARE
+  max_failures CONSTANT integer := 5;
+  lockout CONSTANT interval := interval '15 minutes';
+  attempts mfa_recovery_attempts%ROWTYPE;
+BEGIN
+  INSERT INTO mfa_recovery_attempts (user_id)
+  VALUES (target_user)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Serializes attempts for the user so parallel guesses are all counted.
+  SELECT * INTO attempts
+  FROM mfa_recovery_attempts
+  WHERE user_id = target_user
+  FOR UPDATE;
+
+  IF attempts.locked_until > now() THEN
+    RETURN 'locked';
+  END IF;
+
+  UPDATE mfa_recovery_codes
+  SET used_at = now()
+  WHERE id = (
+    SELECT id FROM mfa_recovery_codes
+    WHERE user_id = target_user
+      AND used_at IS NULL
+      AND code_hash = hash_mfa_recovery_code(code)
+    LIMIT 1
+    FOR UPDATE
+  );
+
+  IF FOUND THEN
+    UPDATE mfa_recovery_attempts
+    SET failed_count = 0, locked_until = NULL, updated_at = now()
+    WHERE user_id = target_user;
+
+    RETURN 'used';
+  END IF;
+
+  IF attempts.failed_count + 1 >= max_failures THEN
+    UPDATE mfa_recovery_attempts
+    SET failed_count = 0, locked_until = now() + lockout, updated_at = now()
+    WHERE user_id = target_user;
+
+    RETURN 'locked';
+  END IF;
+
+  UPDATE mfa_recovery_attempts
+  SET failed_count = failed_count + 1, updated_at = now()
+  WHERE user_id = target_user;
+
+  RETURN 'invalid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION consume_mfa_recovery_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_mfa_recovery_code(uuid, text) TO service_role;
+
+REVOKE ALL ON FUNCTION hash_mfa_recovery_code(text) FROM PUBLIC, anon, authenticated;
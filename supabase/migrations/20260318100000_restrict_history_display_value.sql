@@ -0,0 +1,19 @@
+/*
+  # Restrict History Display Helper
+
+  ## Overview
+  `history_display_value()` runs as SECURITY DEFINER and kept its default
+  EXECUTE grant, so any caller could use it to read pipeline stage, loss
+  reason and counselor labels without going through their RLS policies.
+
+  ## 1. Security
+  - EXECUTE on `history_display_value(text, text)` is revoked from everyone;
+    it is only called from `record_inquiry_history()` and
+    `notify_inquiry_changes()`, which run as the function owner
+
+  ## 2. Important Notes
+  - The function is redefined by later migrations with CREATE OR REPLACE,
+    which keeps the existing grants, so this revoke stays in effect
+*/
+
+REVOKE ALL ON FUNCTION history_display_value(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+/*
+  # Limit What Assigned Counselors Can Change on Follow-ups
+
+  ## Overview
+  The assigned counselor may update follow-ups written by someone else so
+  they can complete and reschedule them, but the row policy alone let them
+  rewrite any column, including the notes and the author.
+
+  ## 1. Security
+  - `guard_follow_up_update()` runs before every follow-up update:
+    - `created_by` can only be cleared (by the ON DELETE SET NULL on
+      profiles), never reassigned
+    - Anyone other than the author or an admin can only change `state`,
+      `outcome` and `follow_up_date`
+
+  ## 2. Important Notes
+  - Updates without a signed-in user (service role, cron, foreign key
+    actions run by them) are not checked; RLS already keeps `anon` out
+  - `merge_inquiries()` moves follow-ups as the admin running it, so it is
+    covered by the admin exception
+*/
+
+CREATE OR REPLACE FUNCTION guard_follow_up_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by AND NEW.created_by IS NOT NULL THEN
+    RAISE EXCEPTION 'The author of a follow-up cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.created_by IS DISTINCT FROM auth.uid()
+    AND current_user_role() IS DISTINCT FROM 'admin'
+    AND (to_jsonb(NEW) - ARRAY['state', 'outcome', 'follow_up_date', 'updated_at'])
+      IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['state', 'outcome', 'follow_up_date', 'updated_at'])
+  THEN
+    RAISE EXCEPTION 'Only the state, outcome and date of another user''s follow-up can be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_follow_up_update ON follow_ups;
+CREATE TRIGGER guard_follow_up_update
+  BEFORE UPDATE ON follow_ups
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_follow_up_update();
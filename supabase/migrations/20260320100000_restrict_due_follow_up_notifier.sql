@@ -0,0 +1,18 @@
+/*
+  # Restrict Due Follow-up Notifier
+
+  ## Overview
+  `notify_due_follow_ups()` was only revoked from PUBLIC. Supabase grants
+  EXECUTE on new functions in `public` to `anon` and `authenticated`
+  directly, so any caller could still run it and insert notifications.
+
+  ## 1. Security
+  - EXECUTE on `notify_due_follow_ups()` is revoked from `anon` and
+    `authenticated` as well
+
+  ## 2. Important Notes
+  - The pg_cron job runs as `postgres`, which owns the function and is not
+    affected
+*/
+
+REVOKE ALL ON FUNCTION notify_due_follow_ups() FROM PUBLIC, anon, authenticated;
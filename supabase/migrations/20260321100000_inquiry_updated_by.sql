@@ -0,0 +1,78 @@
+/*
+  # Record Who Last Changed an Inquiry
+
+  ## Overview
+  The inquiry list highlights rows changed since the page was opened, but
+  Realtime payloads did not say who made the change, so a counselor's own
+  edits were highlighted as if someone else had made them.
+
+  ## 1. Modified Tables
+  - `inquiries`
+    - `updated_by` (uuid, nullable) - User whose insert or update last wrote
+      the row; null for service role and scheduled changes
+
+  ## 2. Functions
+  - `set_inquiry_updated_by()` - Trigger stamping `updated_by` from
+    `auth.uid()` on every insert and update, so clients cannot set it
+  - `record_inquiry_history()` - Now ignores `updated_by`, which is already
+    stored as `changed_by` on each history row
+*/
+
+-- Add updated_by to inquiries
+ALTER TABLE inquiries
+  ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Create trigger stamping the acting user
+CREATE OR REPLACE FUNCTION set_inquiry_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_inquiry_updated_by ON inquiries;
+CREATE TRIGGER set_inquiry_updated_by
+  BEFORE INSERT OR UPDATE ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION set_inquiry_updated_by();
+
+-- Keep updated_by out of the audit trail
+CREATE OR REPLACE FUNCTION record_inquiry_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  key text;
+  ignored text[] := ARRAY[
+    'id', 'created_at', 'updated_at', 'updated_by', 'next_follow_up_at',
+    'search_vector', 'normalized_phone', 'normalized_email'
+  ];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO inquiry_history (inquiry_id, action, new_value, changed_by)
+    VALUES (NEW.id, 'created', NEW.status, auth.uid());
+    RETURN NULL;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+
+  FOR key IN SELECT jsonb_object_keys(new_row) LOOP
+    CONTINUE WHEN key = ANY(ignored);
+    CONTINUE WHEN old_row -> key IS NOT DISTINCT FROM new_row -> key;
+
+    INSERT INTO inquiry_history (inquiry_id, action, field, old_value, new_value, changed_by)
+    VALUES (
+      NEW.id,
+      'updated',
+      key,
+      history_display_value(key, old_row ->> key),
+      history_display_value(key, new_row ->> key),
+      auth.uid()
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,42 @@
+/*
+  # Bump the Inquiry Version on Every Edit
+
+  ## Overview
+  The `update_inquiries_updated_at` trigger skipped any update that changed
+  `next_follow_up_at`, so a client update writing that column alongside
+  real edits kept the old `updated_at` and slipped past the conflict check
+  in the inquiry details modal.
+
+  ## 1. Functions
+  - `touch_inquiry_updated_at()` - Sets `updated_at` unless
+    `next_follow_up_at` is the only column the update changes. The acting
+    user and generated columns are ignored in that comparison
+
+  ## 2. Changes to the `update_inquiries_updated_at` trigger
+  - Runs `touch_inquiry_updated_at()` for every update instead of filtering
+    on `next_follow_up_at` in a WHEN clause
+*/
+
+CREATE OR REPLACE FUNCTION touch_inquiry_updated_at()
+RETURNS TRIGGER AS $$
+DECLARE
+  unversioned text[] := ARRAY[
+    'next_follow_up_at', 'updated_at', 'updated_by',
+    'search_vector', 'normalized_phone', 'normalized_email'
+  ];
+BEGIN
+  IF OLD.next_follow_up_at IS NOT DISTINCT FROM NEW.next_follow_up_at
+    OR (to_jsonb(NEW) - unversioned) IS DISTINCT FROM (to_jsonb(OLD) - unversioned)
+  THEN
+    NEW.updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_inquiries_updated_at ON inquiries;
+CREATE TRIGGER update_inquiries_updated_at
+  BEFORE UPDATE ON inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_inquiry_updated_at();
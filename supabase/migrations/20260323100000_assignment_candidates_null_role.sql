@@ -0,0 +1,85 @@
+/*
+  # Assignment Candidates Refuse Callers Without a Role
+
+  ## Overview
+  `assignment_candidates()` checked `current_user_role() NOT IN ('admin',
+  'co_leader')`. `current_user_role()` is NULL for inactive users and for
+  sessions missing a required second factor, and `NULL NOT IN (...)` is not
+  true, so those callers got every counselor's workload.
+
+  ## 1. Changes to Existing Functions
+  - `assignment_candidates()` treats a NULL role as no role, so only active
+    admins and co-leaders that meet the two-factor policy can call it
+
+  ## 2. Important Notes
+  - The rest of the function is unchanged
+  - EXECUTE is also revoked from `anon`, which kept the direct grant
+    Supabase gives new functions
+*/
+
+-- Refuse callers whose role is NULL
+CREATE OR REPLACE FUNCTION assignment_candidates(inquiry_courses text[])
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  role text,
+  on_leave boolean,
+  open_count bigint,
+  overdue_count bigint,
+  course_won bigint,
+  course_closed bigint,
+  last_active_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('admin', 'co_leader') THEN
+    RAISE EXCEPTION 'Only admins and co-leaders can assign inquiries' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.role,
+    p.on_leave,
+    open_inquiry_count(p.id),
+    (
+      SELECT count(*)
+      FROM follow_ups f
+      JOIN inquiries i ON i.id = f.inquiry_id
+      WHERE i.assigned_to = p.id
+        AND f.state = 'scheduled'
+        AND f.follow_up_date < now()
+    ),
+    (
+      SELECT count(*)
+      FROM inquiries i
+      JOIN pipeline_stages s ON s.key = i.status
+      WHERE i.assigned_to = p.id
+        AND s.kind = 'won'
+        AND lower(trim(i.course_interested)) IN (SELECT lower(trim(c)) FROM unnest(inquiry_courses) c)
+    ),
+    (
+      SELECT count(*)
+      FROM inquiries i
+      JOIN pipeline_stages s ON s.key = i.status
+      WHERE i.assigned_to = p.id
+        AND s.kind IN ('won', 'lost')
+        AND lower(trim(i.course_interested)) IN (SELECT lower(trim(c)) FROM unnest(inquiry_courses) c)
+    ),
+    GREATEST(
+      (SELECT u.last_sign_in_at FROM auth.users u WHERE u.id = p.id),
+      (SELECT max(h.changed_at) FROM inquiry_history h WHERE h.changed_by = p.id),
+      (SELECT max(f.created_at) FROM follow_ups f WHERE f.created_by = p.id)
+    )
+  FROM profiles p
+  WHERE p.is_active
+  ORDER BY p.full_name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION assignment_candidates(text[]) FROM anon;